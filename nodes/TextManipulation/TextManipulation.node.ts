@@ -1,3 +1,4 @@
+import { createHash, createHmac } from 'crypto';
 import * as entities from 'entities';
 import * as iconv from 'iconv-lite';
 import {
@@ -9,9 +10,12 @@ import {
 	set,
 	snakeCase,
 	startCase,
+	toPath,
 	trim,
 	trimEnd,
 	trimStart,
+	upperFirst,
+	words,
 } from 'lodash';
 import { BINARY_ENCODING, deepCopy, IExecuteFunctions, NodeConnectionType } from 'n8n-workflow';
 import {
@@ -29,6 +33,40 @@ import stringStripHtml from 'string-strip-html';
 
 iconv.encodingExists('utf8');
 
+/** The result of the manipulations. Usually a text, but some manipulations produce structured data. */
+type ManipulatedValue =
+	| string
+	| number
+	| boolean
+	| null
+	| ManipulatedValue[]
+	| { [key: string]: ManipulatedValue };
+
+/** A value which was found by a key with wildcards. */
+type WildcardMatch = {
+	/** The path of the value split into its segments. */
+	path: string[];
+	/** The segments matched by each wildcard. */
+	captures: string[][];
+	/** The found value. */
+	value: unknown;
+};
+
+/** A part of a text (like a chunk or a token) with its offsets in the text. */
+type TextPart = {
+	/** The index of the part. */
+	index: number;
+	/** The text of the part. */
+	text: string;
+	/** The offset where the part starts in the text. */
+	start: number;
+	/** The offset after the end of the part in the text. */
+	end: number;
+};
+
+/** The binary-to-text encodings which can be used to decode and encode bytes. */
+type BinaryToTextEncoding = 'base32' | 'base64' | 'base64url' | 'hex' | 'quotedPrintable' | 'uuencode';
+
 // Create options for bomAware and encoding
 const bomAware: string[] = [];
 const encodeDecodeOptions: INodePropertyOptions[] = [];
@@ -59,6 +97,108 @@ Object.keys(encodings).forEach((encoding) => {
 	}
 });
 
+// The words which are not capitalized by title case styles, separated by language
+const titleCaseSmallWords: {
+	[language: string]: {
+		articles: string;
+		conjunctions: string;
+		subordinatingConjunctions: string;
+		prepositions: string;
+	};
+} = {
+	de: {
+		articles: 'der die das den dem des ein eine einen einem einer eines',
+		conjunctions: 'und oder aber denn sondern',
+		subordinatingConjunctions: 'als dass ob wie',
+		prepositions:
+			'am an auf aus bei beim bis durch für gegen hinter im in ins mit nach neben ohne seit über ' +
+			'um unter vom von vor zu zum zur zwischen',
+	},
+	en: {
+		articles: 'a an the',
+		conjunctions: 'and but for nor or so yet',
+		subordinatingConjunctions: 'as if than that',
+		prepositions:
+			'about above across after against along among around as at before behind below beneath ' +
+			'beside between beyond by down during except for from in inside into like near of off on ' +
+			'onto out outside over past per since through throughout till to toward towards under ' +
+			'underneath until up upon via with within without',
+	},
+	es: {
+		articles: 'el la lo los las un una unos unas',
+		conjunctions: 'y e o u ni pero sino',
+		subordinatingConjunctions: 'como que si',
+		prepositions:
+			'a al ante bajo con contra de del desde durante en entre hacia hasta para por según sin ' +
+			'sobre tras',
+	},
+	fr: {
+		articles: 'le la les l un une des du',
+		conjunctions: 'et ou mais ni car or donc',
+		subordinatingConjunctions: 'comme que si',
+		prepositions: 'à au aux avec chez d de dans en entre par pour sans sous sur vers',
+	},
+	it: {
+		articles: 'il lo la i gli le un uno una',
+		conjunctions: 'e ed o od ma né',
+		subordinatingConjunctions: 'che come se',
+		prepositions:
+			'a ad agli ai al alla alle allo con da dal dalla dei del della di fra in nel nella per su ' +
+			'sul sulla tra',
+	},
+	nl: {
+		articles: 'de het een',
+		conjunctions: 'en of maar want',
+		subordinatingConjunctions: 'als dat',
+		prepositions: 'aan achter bij door in met na naar om onder op over tot uit van voor',
+	},
+	pt: {
+		articles: 'o a os as um uma uns umas',
+		conjunctions: 'e ou mas nem',
+		subordinatingConjunctions: 'como que se',
+		prepositions:
+			'a à às ao aos até com da das de do dos em entre na nas no nos para pela pelo por sem sob ' +
+			'sobre',
+	},
+};
+
+// The unicode general categories which can be used in character groups
+const unicodeCategories: { [group: string]: string } = {
+	letters: '\\p{L}',
+	marks: '\\p{M}',
+	numbers: '\\p{N}',
+	punctuation: '\\p{P}',
+	separators: '\\p{Z}',
+	symbols: '\\p{S}',
+};
+
+// Create the transliterations of letters which are not decomposed by the unicode normalization
+const transliterations = new Map<string, string>([
+	['ẞ', 'SS'],
+	['Ŋ', 'NG'],
+]);
+[
+	// Latin
+	'ß:ss æ:ae ð:d đ:d ħ:h ı:i ĳ:ij ĸ:q ŀ:l ł:l ŉ:n ŋ:ng œ:oe ø:o ŧ:t þ:th ſ:s',
+	// Cyrillic
+	'а:a б:b в:v г:g д:d е:e ё:yo ж:zh з:z и:i й:y к:k л:l м:m н:n о:o п:p р:r с:s т:t у:u ф:f ' +
+		'х:kh ц:ts ч:ch ш:sh щ:shch ъ: ы:y ь: э:e ю:yu я:ya ґ:g є:ye і:i ї:yi ў:u ђ:dj ј:j љ:lj ' +
+		'њ:nj ћ:c џ:dz ѓ:gj ќ:kj ѕ:dz',
+	// Greek (letters with accents are decomposed)
+	'α:a β:v γ:g δ:d ε:e ζ:z η:i θ:th ι:i κ:k λ:l μ:m ν:n ξ:x ο:o π:p ρ:r σ:s ς:s τ:t υ:y φ:f ' +
+		'χ:ch ψ:ps ω:o',
+]
+	.join(' ')
+	.split(' ')
+	.forEach((transliteration) => {
+		const [letter, latin] = transliteration.split(':');
+		transliterations.set(letter, latin);
+		const upperLetter = letter.toUpperCase();
+		if (upperLetter !== letter && upperLetter.length === 1 && !transliterations.has(upperLetter)) {
+			transliterations.set(upperLetter, capitalize(latin));
+		}
+	});
+
 /**
  * Allows to replace substrings in a string.
  *
@@ -176,667 +316,5266 @@ function buildRegexGroup(base: string, min = 0, max = 0): string {
 	}
 }
 
-/** A node which allows you to manipulate string values. */
-export class TextManipulation implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'TextManipulation',
-		name: 'textManipulation',
-		icon: 'file:TextManipulation.svg',
-		group: ['transform'],
-		version: 1,
-		description: 'Allows you to manipulate string values.',
-		defaults: {
-			name: 'TextManipulation',
-		},
-		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
-		properties: [
-			{
-				displayName: 'Keep Only Set',
-				name: 'keepOnlySet',
-				type: 'boolean',
-				default: false,
-				description:
-					'Whether only the values set on this node should be kept and all others removed',
-			},
-			{
-				displayName: 'Texts with Manipulations',
-				name: 'textsWithManipulations',
-				placeholder: 'Add Texts Manipulations',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-					sortable: true,
-				},
-				description: 'The texts to manipulate',
-				default: {},
-				options: [
-					{
-						name: 'textsWithManipulationsValues',
-						displayName: 'Texts with Manipulations',
-						values: [
-							{
-								displayName: 'Data Sources',
-								name: 'dataSources',
-								placeholder: 'Add Data Source',
-								type: 'fixedCollection',
-								typeOptions: {
-									multipleValues: true,
-									sortable: true,
-								},
-								description: 'The data sources for the manipulations',
-								default: {},
-								options: [
-									{
-										displayName: 'Data Source',
-										name: 'dataSource',
-										values: [
-											{
-												displayName: 'Read Operation',
-												name: 'readOperation',
-												type: 'options',
-												options: [
-													{
-														name: 'Text',
-														value: 'fromText',
-														description: 'Declare text directly',
-													},
-													{
-														name: 'Read From File',
-														value: 'fromFile',
-														description: 'Read text from file',
-													},
-													{
-														name: 'Read From JSON',
-														value: 'fromJSON',
-														description: 'Read text from JSON',
-													},
-												],
-												default: 'fromText',
-											},
-											{
-												displayName: 'Binary Property',
-												name: 'binaryPropertyName',
-												required: true,
-												displayOptions: {
-													show: {
-														readOperation: ['fromFile'],
-													},
-												},
-												type: 'string',
-												default: 'data',
-												description:
-													'Name of the binary property from which the binary data is to be read',
-											},
-											{
-												displayName: 'Decode With',
-												name: 'fileDecodeWith',
-												displayOptions: {
-													show: {
-														readOperation: ['fromFile'],
-													},
-												},
-												type: 'options',
-												options: encodeDecodeOptions,
-												default: 'utf8',
-											},
-											{
-												displayName: 'Strip BOM',
-												name: 'fileStripBOM',
-												displayOptions: {
-													show: {
-														readOperation: ['fromFile'],
-														fileDecodeWith: bomAware,
-													},
-												},
-												type: 'boolean',
-												default: true,
-											},
-											{
-												displayName: 'Get Manipulated Data',
-												name: 'getManipulatedData',
-												required: true,
-												displayOptions: {
-													show: {
-														readOperation: ['fromFile', 'fromJSON'],
-													},
-												},
-												type: 'boolean',
-												default: false,
-												description:
-													'Whether to use the newly manipulated data instead of the raw data. If none are available, raw data is used.',
-											},
-											{
-												displayName: 'Source Key',
-												name: 'sourceKey',
-												required: true,
-												displayOptions: {
-													show: {
-														readOperation: ['fromJSON'],
-													},
-												},
-												type: 'string',
-												default: 'data',
-												description:
-													'The name of the JSON key to get data from.It is also possible to define deep keys by using dot-notation like for example:"level1.level2.currentKey"',
-											},
-											{
-												displayName: 'Skip Non-String',
-												name: 'skipNonString',
-												required: true,
-												displayOptions: {
-													show: {
-														readOperation: ['fromJSON'],
-													},
-												},
-												type: 'boolean',
-												default: true,
-												description:
-													'Whether to skip non-string data. If they are not skipped, they are automatically converted to a string.',
-											},
-											{
-												displayName: 'Text',
-												name: 'text',
-												required: true,
-												displayOptions: {
-													show: {
-														readOperation: ['fromText'],
-													},
-												},
-												type: 'string',
-												default: '',
-												description: 'Plain text',
-											},
-											{
-												displayName: 'Write Operation',
-												name: 'writeOperation',
-												type: 'options',
-												options: [
-													{
-														name: 'Write to File',
-														value: 'toFile',
-														description: 'Write the manipulated text to a file',
-													},
-													{
-														name: 'Write to JSON',
-														value: 'toJSON',
-														description: 'Write the manipulated text to a JSON key',
-													},
-												],
-												default: 'toJSON',
-											},
-											{
-												displayName: 'Destination Binary Property',
-												name: 'destinationBinaryPropertyName',
-												required: true,
-												displayOptions: {
-													show: {
-														writeOperation: ['toFile'],
-													},
-												},
-												type: 'string',
-												default: 'data',
-												description:
-													'Name of the binary property where the binary data should be written',
-											},
-											{
-												displayName: 'Encode With',
-												name: 'fileEncodeWith',
-												displayOptions: {
-													show: {
-														writeOperation: ['toFile'],
-													},
-												},
-												type: 'options',
-												options: encodeDecodeOptions,
-												default: 'utf8',
-											},
-											{
-												displayName: 'Add BOM',
-												name: 'fileAddBOM',
-												displayOptions: {
-													show: {
-														writeOperation: ['toFile'],
-														fileEncodeWith: bomAware,
-													},
-												},
-												type: 'boolean',
-												default: false,
-											},
-											{
-												displayName: 'File Name',
-												name: 'fileName',
-												type: 'string',
-												displayOptions: {
-													show: {
-														writeOperation: ['toFile'],
-													},
-												},
-												default: '',
-												placeholder: 'example.txt',
-												description: 'The file name to set',
-											},
-											{
-												displayName: 'Mime Type',
-												name: 'mimeType',
-												type: 'string',
-												displayOptions: {
-													show: {
-														writeOperation: ['toFile'],
-													},
-												},
+/**
+ * Creates a regex from a string. The string can either be a plain pattern or a pattern with flags
+ * like `/pattern/flags`.
+ *
+ * @param   {string} regex - The regex string.
+ * @returns {RegExp}       - The created regex.
+ */
+function parseRegex(regex: string): RegExp {
+	const regexMatch = regex.match(new RegExp('^/(.*?)/([gimusy]*)$'));
+	if (!regexMatch) return new RegExp(regex);
+	return new RegExp(regexMatch[1], regexMatch[2]);
+}
+
+/**
+ * Returns all matches of a regex. The global flag is added if it is missing.
+ *
+ * @param   {string}             str   - The string to search in.
+ * @param   {RegExp}             regex - The regex to search for.
+ * @returns {RegExpMatchArray[]}       - All matches of the regex.
+ */
+function matchAll(str: string, regex: RegExp): RegExpMatchArray[] {
+	return Array.from(
+		str.matchAll(regex.global ? regex : new RegExp(regex.source, regex.flags + 'g')),
+	);
+}
+
+/**
+ * Returns the named groups of a match. Groups which did not participate in the match are `null`.
+ *
+ * @param   {RegExpMatchArray}                  match - The match of a regex.
+ * @returns {{ [key: string]: string | null }}        - The named groups.
+ */
+function namedGroups(match: RegExpMatchArray): { [key: string]: string | null } {
+	const groups: { [key: string]: string | null } = {};
+	for (const [name, value] of Object.entries(match.groups ?? {})) {
+		groups[name] = value ?? null;
+	}
+	return groups;
+}
+
+/**
+ * Converts a string to title case following the rules of a style guide. Words with inner capitals
+ * (like iPhone or NASA) are kept as they are.
+ *
+ * @param   {string} str      - The string to convert.
+ * @param   {string} style    - The style guide (ap, apa, chicago or firstWord).
+ * @param   {string} language - The language of the small words which are not capitalized.
+ * @returns {string}          - The string in title case.
+ */
+function titleCase(str: string, style: string, language: string): string {
+	const smallWords = new Set<string>();
+	const lists = titleCaseSmallWords[language.split(/[-_]/)[0].toLowerCase()];
+	if (lists !== undefined) {
+		const add = (list: string, maxLength = Infinity) =>
+			list
+				.split(' ')
+				.filter((word) => word.length <= maxLength)
+				.forEach((word) => smallWords.add(word));
+		switch (style) {
+			case 'ap':
+				// articles and conjunctions and prepositions with up to three letters
+				add(lists.articles);
+				add(lists.conjunctions, 3);
+				add(lists.prepositions, 3);
+				break;
+			case 'apa':
+				// all minor words with up to three letters
+				add(lists.articles);
+				add(lists.conjunctions, 3);
+				add(lists.subordinatingConjunctions, 3);
+				add(lists.prepositions, 3);
+				break;
+			case 'chicago':
+				// articles, coordinating conjunctions and all prepositions
+				add(lists.articles);
+				add(lists.conjunctions);
+				add(lists.prepositions);
+				break;
+		}
+	}
+	const capitalizeWord = (word: string) =>
+		word.replace(/\p{L}/u, (letter) => letter.toLocaleUpperCase(language));
+	const tokens = str.split(/(\s+)/);
+	const wordIndexes: number[] = [];
+	tokens.forEach((token, index) => {
+		if (token.trim() !== '') wordIndexes.push(index);
+	});
+	const lastIndex = wordIndexes[wordIndexes.length - 1];
+	// the first word of the string and after a colon or the end of a sentence starts a phrase
+	let startsPhrase = true;
+	for (const index of wordIndexes) {
+		const token = tokens[index];
+		const [, prefix, word, suffix] = token.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u) as string[];
+		const keep = (part: string) => /\p{Lu}/u.test(part.slice(1)) || /[.@/\\]/.test(part);
+		tokens[index] =
+			prefix +
+			word
+				.split('-')
+				.map((part, partIndex) => {
+					if (keep(part)) return part;
+					if (partIndex === 0 && startsPhrase) return capitalizeWord(part);
+					if (style === 'firstWord') return part;
+					if (
+						smallWords.has(part.toLocaleLowerCase(language)) &&
+						(index !== lastIndex || partIndex !== 0)
+					) {
+						return part.toLocaleLowerCase(language);
+					}
+					return capitalizeWord(part);
+				})
+				.join('-') +
+			suffix;
+		startsPhrase = /[:.!?\u2013\u2014]$/.test(suffix);
+	}
+	return tokens.join('');
+}
+
+/**
+ * Joins words in a letter case style.
+ *
+ * @param   {string[]} words            - The words to join.
+ * @param   {string}   caseType         - The letter case style.
+ * @param   {boolean}  preserveAcronyms - Whether words in upper case (like HTTP) are kept as they are.
+ * @returns {string}                    - The joined words.
+ */
+function joinWords(words: string[], caseType: string, preserveAcronyms: boolean): string {
+	const isAcronym = (word: string) =>
+		preserveAcronyms && word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+	const lower = (word: string) => (isAcronym(word) ? word : word.toLowerCase());
+	const upper = (word: string) => (isAcronym(word) ? word : capitalize(word));
+	switch (caseType) {
+		case 'camelCase':
+			return words.map((word, index) => (index === 0 ? lower(word) : upper(word))).join('');
+		case 'constantCase':
+			return words.map((word) => word.toUpperCase()).join('_');
+		case 'dotCase':
+			return words.map(lower).join('.');
+		case 'kebabCase':
+			return words.map(lower).join('-');
+		case 'pascalCase':
+			return words.map(upper).join('');
+		case 'pathCase':
+			return words.map(lower).join('/');
+		case 'sentenceCase':
+			return words.map((word, index) => (index === 0 ? upper(word) : lower(word))).join(' ');
+		case 'snakeCase':
+			return words.map(lower).join('_');
+		case 'startCase':
+			return words.map(upperFirst).join(' ');
+		case 'trainCase':
+			return words.map(upper).join('-');
+		default:
+			return words.join(' ');
+	}
+}
+
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes to base32 (RFC 4648) with padding.
+ *
+ * @param   {Buffer} buffer - The bytes to encode.
+ * @returns {string}        - The base32 string.
+ */
+function base32Encode(buffer: Buffer): string {
+	let result = '';
+	let bits = 0;
+	let value = 0;
+	for (const byte of buffer) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			result += base32Alphabet[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) result += base32Alphabet[(value << (5 - bits)) & 31];
+	return result.padEnd(Math.ceil(result.length / 8) * 8, '=');
+}
+
+/**
+ * Decodes a base32 (RFC 4648) string to bytes. Invalid characters and padding are ignored.
+ *
+ * @param   {string} str - The base32 string.
+ * @returns {Buffer}     - The decoded bytes.
+ */
+function base32Decode(str: string): Buffer {
+	const bytes: number[] = [];
+	let bits = 0;
+	let value = 0;
+	for (const char of str.toUpperCase()) {
+		const index = base32Alphabet.indexOf(char);
+		if (index === -1) continue;
+		value = ((value << 5) | index) & 0xffff;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((value >>> (bits - 8)) & 0xff);
+			bits -= 8;
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * Encodes bytes to quoted-printable (RFC 2045). Line breaks are kept as they are.
+ *
+ * @param   {Buffer} buffer - The bytes to encode.
+ * @returns {string}        - The quoted-printable string.
+ */
+function quotedPrintableEncode(buffer: Buffer): string {
+	let result = '';
+	let line = '';
+	for (let i = 0; i < buffer.length; i++) {
+		const byte = buffer[i];
+		if (byte === 0x0d && buffer[i + 1] === 0x0a) {
+			result += line + '\r\n';
+			line = '';
+			i++;
+			continue;
+		}
+		if (byte === 0x0a) {
+			result += line + '\n';
+			line = '';
+			continue;
+		}
+		const next = buffer[i + 1];
+		// whitespace at the end of a line has to be encoded
+		const chunk =
+			(byte >= 33 && byte <= 126 && byte !== 61) ||
+			((byte === 32 || byte === 9) && next !== undefined && next !== 0x0d && next !== 0x0a)
+				? String.fromCharCode(byte)
+				: '=' + byte.toString(16).toUpperCase().padStart(2, '0');
+		if (line.length + chunk.length > 75) {
+			result += line + '=\r\n';
+			line = '';
+		}
+		line += chunk;
+	}
+	return result + line;
+}
+
+/**
+ * Decodes a quoted-printable (RFC 2045) string to bytes.
+ *
+ * @param   {string} str - The quoted-printable string.
+ * @returns {Buffer}     - The decoded bytes.
+ */
+function quotedPrintableDecode(str: string): Buffer {
+	const bytes: number[] = [];
+	str = str.replace(/=\r?\n/g, '');
+	for (let i = 0; i < str.length; i++) {
+		const hex = str.substring(i + 1, i + 3);
+		if (str[i] === '=' && /^[\da-fA-F]{2}$/.test(hex)) {
+			bytes.push(parseInt(hex, 16));
+			i += 2;
+		} else {
+			bytes.push(...Buffer.from(str[i]));
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * Encodes bytes to uuencode including the begin and end lines.
+ *
+ * @param   {Buffer} buffer - The bytes to encode.
+ * @returns {string}        - The uuencoded string.
+ */
+function uuencode(buffer: Buffer): string {
+	const encodeChar = (value: number) => (value === 0 ? '`' : String.fromCharCode(value + 32));
+	let result = 'begin 644 data\n';
+	for (let start = 0; start < buffer.length; start += 45) {
+		const chunk = buffer.subarray(start, start + 45);
+		result += encodeChar(chunk.length);
+		for (let i = 0; i < chunk.length; i += 3) {
+			const value = (chunk[i] << 16) | ((chunk[i + 1] ?? 0) << 8) | (chunk[i + 2] ?? 0);
+			result +=
+				encodeChar((value >>> 18) & 63) +
+				encodeChar((value >>> 12) & 63) +
+				encodeChar((value >>> 6) & 63) +
+				encodeChar(value & 63);
+		}
+		result += '\n';
+	}
+	return result + '`\nend\n';
+}
+
+/**
+ * Decodes an uuencoded string to bytes. The begin and end lines are optional.
+ *
+ * @param   {string} str - The uuencoded string.
+ * @returns {Buffer}     - The decoded bytes.
+ */
+function uudecode(str: string): Buffer {
+	const bytes: number[] = [];
+	for (const line of str.split(/\r\n|\r|\n/)) {
+		if (line === '' || line.startsWith('begin ') || line === 'end') continue;
+		const length = (line.charCodeAt(0) - 32) & 63;
+		const lineBytes: number[] = [];
+		for (let i = 1; i < line.length && lineBytes.length < length; i += 4) {
+			const values = [0, 1, 2, 3].map((offset) => ((line.charCodeAt(i + offset) || 32) - 32) & 63);
+			const value = (values[0] << 18) | (values[1] << 12) | (values[2] << 6) | values[3];
+			lineBytes.push((value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+		}
+		bytes.push(...lineBytes.slice(0, length));
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * Checks whether a string is valid in a binary-to-text encoding with an alphabet. Whitespace is
+ * ignored and the padding is optional, but has to be complete if it is present.
+ *
+ * @param   {string}  str      - The encoded string.
+ * @param   {string}  encoding - The binary-to-text encoding (base32, base64, base64url or hex).
+ * @returns {boolean}          - Whether the string is valid.
+ */
+function isValidBinaryToText(str: string, encoding: string): boolean {
+	str = str.replace(/\s+/g, '');
+	switch (encoding) {
+		case 'base32': {
+			const match = str.match(/^([A-Z2-7]*)(=*)$/i);
+			if (!match) return false;
+			// the number of characters in the last block without the padding
+			const remainder = match[1].length % 8;
+			if (![0, 2, 4, 5, 7].includes(remainder)) return false;
+			return match[2] === '' || (remainder !== 0 && match[2].length === 8 - remainder);
+		}
+		case 'base64':
+		case 'base64url': {
+			const match = str.match(
+				encoding === 'base64' ? /^([A-Za-z0-9+/]*)(=*)$/ : /^([A-Za-z0-9_-]*)(=*)$/,
+			);
+			if (!match) return false;
+			const remainder = match[1].length % 4;
+			if (remainder === 1) return false;
+			return match[2] === '' || (remainder !== 0 && match[2].length === 4 - remainder);
+		}
+		case 'hex':
+			return /^([0-9a-f]{2})*$/i.test(str);
+		default:
+			return true;
+	}
+}
+
+/**
+ * Decodes a string with a binary-to-text encoding to bytes.
+ *
+ * @param   {IExecuteFunctions}    this      - The execute functions of the node.
+ * @param   {string}               str       - The encoded string.
+ * @param   {BinaryToTextEncoding} encoding  - The binary-to-text encoding.
+ * @param   {number}               itemIndex - The index of the current item.
+ * @returns {Buffer}                         - The decoded bytes.
+ */
+function decodeBinaryToText(
+	this: IExecuteFunctions,
+	str: string,
+	encoding: BinaryToTextEncoding,
+	itemIndex: number,
+): Buffer {
+	if (!isValidBinaryToText(str, encoding)) {
+		throw new NodeOperationError(this.getNode(), `The text is not valid ${encoding}!`, {
+			itemIndex,
+		});
+	}
+	switch (encoding) {
+		case 'base32':
+			return base32Decode(str);
+		case 'base64':
+		case 'base64url':
+		case 'hex':
+			return Buffer.from(str.replace(/\s+/g, ''), encoding);
+		case 'quotedPrintable':
+			return quotedPrintableDecode(str);
+		case 'uuencode':
+			return uudecode(str);
+	}
+}
+
+/**
+ * Encodes bytes to a string with a binary-to-text encoding.
+ *
+ * @param   {Buffer}               buffer   - The bytes to encode.
+ * @param   {BinaryToTextEncoding} encoding - The binary-to-text encoding.
+ * @returns {string}                        - The encoded string.
+ */
+function encodeBinaryToText(buffer: Buffer, encoding: BinaryToTextEncoding): string {
+	switch (encoding) {
+		case 'base32':
+			return base32Encode(buffer);
+		case 'base64':
+		case 'base64url':
+		case 'hex':
+			return buffer.toString(encoding);
+		case 'quotedPrintable':
+			return quotedPrintableEncode(buffer);
+		case 'uuencode':
+			return uuencode(buffer);
+	}
+}
+
+// Create lookup table for crc32
+const crc32Table: number[] = [];
+for (let n = 0; n < 256; n++) {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	crc32Table.push(c >>> 0);
+}
+
+/**
+ * Calculates the CRC32 checksum of a buffer.
+ *
+ * @param   {Buffer} buffer - The buffer to calculate the checksum for.
+ * @returns {Buffer}        - The checksum as 4 bytes (big-endian).
+ */
+function crc32(buffer: Buffer): Buffer {
+	let crc = 0xffffffff;
+	for (const byte of buffer) {
+		crc = crc32Table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	const result = Buffer.alloc(4);
+	result.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+	return result;
+}
+
+/**
+ * Applies a function to the lines of a string. The first line break of the string is used to join
+ * the lines again. A line break at the end of the string is kept unless no lines are left.
+ *
+ * @param   {string}                        str - The string with the lines.
+ * @param   {(lines: string[]) => string[]} fn  - The function which manipulates the lines.
+ * @returns {string}                            - The string with the manipulated lines.
+ */
+function mapLines(str: string, fn: (lines: string[]) => string[]): string {
+	if (str === '') return str;
+	const newline = str.match(/\r\n|\r|\n/)?.[0] ?? '\n';
+	const lines = str.split(/\r\n|\r|\n/);
+	const trailingNewline = lines.length > 1 && lines[lines.length - 1] === '';
+	if (trailingNewline) lines.pop();
+	const result = fn(lines);
+	return result.join(newline) + (trailingNewline && result.length > 0 ? newline : '');
+}
+
+/**
+ * Replaces the tabs of a line with spaces up to the next tab stop.
+ *
+ * @param   {string} line     - The line with tabs.
+ * @param   {number} tabWidth - The number of columns between the tab stops.
+ * @returns {string}          - The line with spaces instead of tabs.
+ */
+function expandTabs(line: string, tabWidth: number): string {
+	let expanded = '';
+	for (const char of line) {
+		expanded += char === '\t' ? ' '.repeat(tabWidth - (expanded.length % tabWidth)) : char;
+	}
+	return expanded;
+}
+
+/**
+ * Creates a pseudo random number generator (mulberry32). Without a seed `Math.random` is used.
+ *
+ * @param   {string}       seed - The seed of the generator.
+ * @returns {() => number}      - Returns a function which generates numbers between 0 and 1.
+ */
+function createRandom(seed: string): () => number {
+	if (seed === '') return Math.random;
+	let state = crc32(Buffer.from(seed)).readUInt32BE();
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Transliterates a string to ASCII. Letters of other scripts are replaced by latin letters and
+ * diacritics are removed. Characters which can not be transliterated are kept.
+ *
+ * @param   {string}                    str          - The string to transliterate.
+ * @param   {{ [key: string]: string }} replacements - Custom replacements which are applied first.
+ * @returns {string}                                 - The transliterated string.
+ */
+function transliterate(str: string, replacements: { [key: string]: string }): string {
+	const keys = Object.keys(replacements)
+		.filter((key) => key !== '')
+		.sort((a, b) => b.length - a.length);
+	// the odd parts are the keys of the custom replacements
+	const parts =
+		keys.length === 0 ? [str] : str.split(new RegExp(`(${keys.map(escapeRegExp).join('|')})`));
+	return parts
+		.map((part, index) =>
+			index % 2 === 1
+				? replacements[part]
+				: Array.from(
+					part.normalize('NFC'),
+					(char) =>
+						transliterations.get(char) ??
+						Array.from(char.normalize('NFKD'), (decomposed) =>
+							transliterations.get(decomposed) ?? decomposed,
+						)
+							.join('')
+							.replace(/\p{M}/gu, ''),
+				).join(''),
+		)
+		.join('');
+}
+
+/**
+ * Converts a string to a slug which only contains ASCII letters, digits and separators.
+ *
+ * @param   {string}                    str          - The string to convert.
+ * @param   {string}                    separator    - The separator between the words.
+ * @param   {boolean}                   lowerCase    - Whether the slug should be lower case.
+ * @param   {number}                    maxLength    - The maximum length. `0` means no limit.
+ * @param   {{ [key: string]: string }} replacements - Custom replacements which are applied first.
+ * @returns {string}                                 - The slug.
+ */
+function slugify(
+	str: string,
+	separator: string,
+	lowerCase: boolean,
+	maxLength: number,
+	replacements: { [key: string]: string },
+): string {
+	let slug = transliterate(str, replacements)
+		.split(/[^A-Za-z0-9]+/)
+		.filter((word) => word !== '')
+		.join(separator);
+	if (lowerCase) slug = slug.toLowerCase();
+	if (maxLength > 0 && slug.length > maxLength) {
+		// cut at the last separator if possible
+		const end = separator === '' ? -1 : slug.lastIndexOf(separator, maxLength);
+		slug = slug.substring(0, end > 0 ? end : maxLength);
+		if (separator !== '') slug = charsTrimEnd(slug, separator);
+	}
+	return slug;
+}
+
+/**
+ * Converts a file name to a safe file name which only contains ASCII letters, digits, dashes and
+ * the dot of the extension.
+ *
+ * @param   {string} fileName - The file name to convert.
+ * @returns {string}          - The safe file name.
+ */
+function slugifyFileName(fileName: string): string {
+	const dot = fileName.lastIndexOf('.');
+	if (dot <= 0) return slugify(fileName, '-', false, 0, {});
+	return (
+		slugify(fileName.substring(0, dot), '-', false, 0, {}) +
+		'.' +
+		slugify(fileName.substring(dot + 1), '-', false, 0, {})
+	);
+}
+
+/**
+ * Reads the custom replacements of a transliteration.
+ *
+ * @param   {IExecuteFunctions}         this         - The execute functions of the node.
+ * @param   {unknown}                   replacements - The replacements as object or JSON string.
+ * @param   {number}                    itemIndex    - The index of the current item.
+ * @returns {{ [key: string]: string }}              - The replacements.
+ */
+function parseReplacements(
+	this: IExecuteFunctions,
+	replacements: unknown,
+	itemIndex: number,
+): { [key: string]: string } {
+	if (typeof replacements === 'string') {
+		try {
+			replacements = JSON.parse(replacements.trim() || '{}');
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'The Custom Replacements have to be valid JSON!', {
+				itemIndex,
+			});
+		}
+	}
+	if (replacements === undefined || replacements === null) return {};
+	if (
+		typeof replacements !== 'object' ||
+		Array.isArray(replacements) ||
+		Object.values(replacements).some((replacement) => typeof replacement !== 'string')
+	) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'The Custom Replacements have to be an object with strings as values!',
+			{ itemIndex },
+		);
+	}
+	return replacements as { [key: string]: string };
+}
+
+/**
+ * Splits a string into segments like `Intl.Segmenter`. Long strings are segmented in parts which end
+ * at a line break (or before a whitespace for graphemes and words), because the segmenter gets slow
+ * with the length of the string.
+ *
+ * @param   {string}                           str         - The string to segment.
+ * @param   {'grapheme' | 'word' | 'sentence'} granularity - The kind of the segments.
+ * @param   {string}                           [language]  - The language of the string.
+ * @returns {Intl.SegmentData[]}                           - The segments of the string.
+ */
+function segmentText(
+	str: string,
+	granularity: 'grapheme' | 'word' | 'sentence',
+	language?: string,
+): Intl.SegmentData[] {
+	const segmenter = new Intl.Segmenter(language, { granularity });
+	const segments: Intl.SegmentData[] = [];
+	let start = 0;
+	while (start < str.length) {
+		let end = str.length;
+		if (end - start > 1000) {
+			end = str.lastIndexOf('\n', start + 1000) + 1;
+			if (end <= start && granularity !== 'sentence') {
+				end = start + 1000;
+				while (end > start && !(/\s/.test(str[end]) && !/\s/.test(str[end - 1]))) end--;
+			}
+			if (end <= start) end = str.length;
+		}
+		for (const segment of segmenter.segment(str.substring(start, end))) {
+			segments.push({
+				segment: segment.segment,
+				index: segment.index + start,
+				input: str,
+				isWordLike: segment.isWordLike,
+			});
+		}
+		start = end;
+	}
+	return segments;
+}
+
+/**
+ * Splits a string into its characters.
+ *
+ * @param   {string}   str     - The string to split.
+ * @param   {string}   countBy - What counts as a character (codeUnits, codePoints or graphemes).
+ * @returns {string[]}         - The characters of the string.
+ */
+function splitCharacters(str: string, countBy: string): string[] {
+	switch (countBy) {
+		case 'codePoints':
+			return Array.from(str);
+		case 'graphemes':
+			return segmentText(str, 'grapheme').map((segment) => segment.segment);
+		default:
+			return str.split('');
+	}
+}
+
+/**
+ * Works like `String.prototype.substring`, but on an array of characters.
+ *
+ * @param   {string[]} characters - The characters of the string.
+ * @param   {number}   start      - The start position.
+ * @param   {number}   [end]      - The end position (exclusive). Default is the end of the string
+ * @returns {string}              - The substring.
+ */
+function substringCharacters(characters: string[], start: number, end = characters.length): string {
+	const clamp = (position: number) =>
+		Math.min(Math.max(Math.trunc(position) || 0, 0), characters.length);
+	const from = clamp(start);
+	const to = clamp(end);
+	return characters.slice(Math.min(from, to), Math.max(from, to)).join('');
+}
+
+/**
+ * Works like `String.prototype.padStart` and `String.prototype.padEnd`, but counts characters.
+ *
+ * @param   {string}  str          - The string to pad.
+ * @param   {number}  targetLength - The length to which the string should be padded.
+ * @param   {string}  padString    - The filling string.
+ * @param   {string}  countBy      - What counts as a character (codeUnits, codePoints or graphemes).
+ * @param   {boolean} atStart      - Whether to pad at the beginning instead of the end.
+ * @returns {string}               - The padded string.
+ */
+function padCharacters(
+	str: string,
+	targetLength: number,
+	padString: string,
+	countBy: string,
+	atStart: boolean,
+): string {
+	const length = splitCharacters(str, countBy).length;
+	const fillCharacters = splitCharacters(padString, countBy);
+	if (length >= targetLength || fillCharacters.length === 0) return str;
+	let padding = '';
+	for (let i = 0; i < targetLength - length; i++) {
+		padding += fillCharacters[i % fillCharacters.length];
+	}
+	return atStart ? padding + str : str + padding;
+}
+
+/**
+ * Returns the position of the last word or sentence boundary which is not after a position.
+ *
+ * @param   {string} str         - The string with the boundaries.
+ * @param   {number} position    - The position (in UTF-16 code units).
+ * @param   {string} granularity - The kind of boundary (word or sentence).
+ * @returns {number}             - The position of the boundary. `0` if there is none.
+ */
+function lastBoundary(str: string, position: number, granularity: 'word' | 'sentence'): number {
+	let boundary = 0;
+	for (const segment of segmentText(str, granularity)) {
+		if (segment.index > position) break;
+		boundary = segment.index;
+	}
+	return boundary;
+}
+
+/**
+ * Shortens a string to a maximum length and adds an ellipsis. The string is only cut between
+ * graphemes at a boundary, if a boundary is not possible it falls back to the next smaller boundary.
+ *
+ * @param   {string}                  str           - The string to truncate.
+ * @param   {number}                  maxLength     - The maximum length.
+ * @param   {string}                  ellipsis      - The string which is added if the string was
+ *   truncated.
+ * @param   {string}                  boundary      - Where the string can be cut (grapheme, word or
+ *   sentence).
+ * @param   {boolean}                 countEllipsis - Whether the ellipsis counts into the maximum
+ *   length.
+ * @param   {(str: string) => number} measure       - Returns the length of a string.
+ * @returns {string}                                - The truncated string.
+ */
+function truncateText(
+	str: string,
+	maxLength: number,
+	ellipsis: string,
+	boundary: string,
+	countEllipsis: boolean,
+	measure: (str: string) => number,
+): string {
+	if (measure(str) <= maxLength) return str;
+	const suffix = countEllipsis ? ellipsis : '';
+	if (measure(suffix) > maxLength) return '';
+	const graphemes = splitCharacters(str, 'graphemes');
+	// search the highest number of graphemes which fit
+	let low = 0;
+	let high = graphemes.length;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (measure(graphemes.slice(0, middle).join('') + suffix) <= maxLength) low = middle;
+		else high = middle - 1;
+	}
+	const position = graphemes.slice(0, low).join('').length;
+	let end = position;
+	if (boundary === 'sentence') end = lastBoundary(str, position, 'sentence');
+	if (boundary === 'word' || (boundary === 'sentence' && end === 0))
+		end = lastBoundary(str, position, 'word');
+	if (end === 0) end = position;
+	return str.substring(0, end).trimEnd() + ellipsis;
+}
+
+/**
+ * Checks if a path contains wildcards (`*` for one level and `**` for any number of levels).
+ *
+ * @param   {string[]} path - The path split into its segments.
+ * @returns {boolean}       - Returns true if the path contains wildcards.
+ */
+function hasWildcards(path: string[]): boolean {
+	return path.some((segment) => segment === '*' || segment === '**');
+}
+
+/**
+ * Finds all values which match a path with wildcards. `*` matches one level and `**` matches any
+ * number of levels of objects and arrays.
+ *
+ * @param   {unknown}         value      - The value to search in.
+ * @param   {string[]}        pattern    - The path with wildcards split into its segments.
+ * @param   {string[]}        [path]     - The path of the value.
+ * @param   {string[][]}      [captures] - The segments matched by the previous wildcards.
+ * @returns {WildcardMatch[]}            - The matched values.
+ */
+function matchWildcards(
+	value: unknown,
+	pattern: string[],
+	path: string[] = [],
+	captures: string[][] = [],
+): WildcardMatch[] {
+	if (pattern.length === 0) return [{ path, captures, value }];
+	if (value === null || typeof value !== 'object') return [];
+	const object = value as Record<string, unknown>;
+	const [segment, ...rest] = pattern;
+	switch (segment) {
+		case '*':
+			return Object.keys(object).flatMap((key) =>
+				matchWildcards(object[key], rest, [...path, key], [...captures, [key]]),
+			);
+		case '**': {
+			const descend = (
+				current: unknown,
+				currentPath: string[],
+				skipped: string[],
+			): WildcardMatch[] => {
+				const matches = matchWildcards(current, rest, currentPath, [...captures, skipped]);
+				if (current === null || typeof current !== 'object') return matches;
+				const currentObject = current as Record<string, unknown>;
+				return matches.concat(
+					Object.keys(currentObject).flatMap((key) =>
+						descend(currentObject[key], [...currentPath, key], [...skipped, key]),
+					),
+				);
+			};
+			return descend(value, path, []);
+		}
+		default:
+			if (!Object.prototype.hasOwnProperty.call(object, segment)) return [];
+			return matchWildcards(object[segment], rest, [...path, segment], captures);
+	}
+}
+
+/**
+ * Replaces the wildcards of a path with the segments which were matched by the wildcards of another
+ * path.
+ *
+ * @param   {string[]}   pattern  - The path with wildcards split into its segments.
+ * @param   {string[][]} captures - The segments matched by each wildcard.
+ * @returns {string[]}            - The path without wildcards.
+ */
+function replaceWildcards(pattern: string[], captures: string[][]): string[] {
+	let index = 0;
+	return pattern.flatMap((segment) =>
+		segment === '*' || segment === '**' ? captures[index++] ?? [] : [segment],
+	);
+}
+
+/**
+ * Applies a function to every string in a value. Arrays and objects are walked recursively.
+ *
+ * @param   {ManipulatedValue}                    value - The value with the strings.
+ * @param   {(str: string) => ManipulatedValue} fn    - The function which is applied to each string.
+ * @returns {ManipulatedValue}                          - The value with the replaced strings.
+ */
+function mapStrings(
+	value: ManipulatedValue,
+	fn: (str: string) => ManipulatedValue,
+): ManipulatedValue {
+	if (typeof value === 'string') return fn(value);
+	if (Array.isArray(value)) return value.map((entry) => mapStrings(entry, fn));
+	if (value !== null && typeof value === 'object') {
+		const result: { [key: string]: ManipulatedValue } = {};
+		for (const key of Object.keys(value)) {
+			result[key] = mapStrings(value[key], fn);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Applies a function to every key of the objects in a value. Arrays and objects are walked
+ * recursively.
+ *
+ * @param   {ManipulatedValue}        value - The value with the objects.
+ * @param   {(key: string) => string} fn    - The function which is applied to each key.
+ * @returns {ManipulatedValue}              - The value with the replaced keys.
+ */
+function mapKeys(value: ManipulatedValue, fn: (key: string) => string): ManipulatedValue {
+	if (Array.isArray(value)) return value.map((entry) => mapKeys(entry, fn));
+	if (value !== null && typeof value === 'object') {
+		const result: { [key: string]: ManipulatedValue } = {};
+		for (const key of Object.keys(value)) {
+			result[fn(key)] = mapKeys(value[key], fn);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Prepares a value from JSON for the manipulations.
+ *
+ * @param   {unknown}                       value         - The value from JSON.
+ * @param   {boolean}                       skipNonString - Whether non-string values are skipped.
+ *   Otherwise they are converted to a string.
+ * @param   {boolean}                       walkObjects   - Whether objects and arrays are kept, so
+ *   that the strings in them are manipulated.
+ * @returns {ManipulatedValue | undefined}                - The value for the manipulations.
+ *   `undefined` if the value should be skipped.
+ */
+function readJsonValue(
+	value: unknown,
+	skipNonString: boolean,
+	walkObjects: boolean,
+): ManipulatedValue | undefined {
+	if (typeof value === 'string') return value;
+	if (walkObjects && value !== null && typeof value === 'object')
+		return deepCopy(value) as ManipulatedValue;
+	if (skipNonString) return undefined;
+	return ((value as string | null) ?? '').toString();
+}
+
+/**
+ * Converts a value to a string. Strings are kept as they are, everything else is converted to JSON.
+ *
+ * @param   {ManipulatedValue} value - The value to convert.
+ * @returns {string}                 - The value as string.
+ */
+function stringifyValue(value: ManipulatedValue): string {
+	if (typeof value === 'string') return value;
+	return JSON.stringify(value);
+}
+
+/**
+ * Splits a string into parts. Unlike `String.prototype.split`, the text matched by capture groups
+ * of a regex separator is not added to the parts.
+ *
+ * @param   {string}          str       - The string to split.
+ * @param   {string | RegExp} separator - The separator to split by.
+ * @param   {number}          limit     - The maximum number of parts. `0` means no limit.
+ * @param   {boolean}         trimEach  - Whether each part should be trimmed.
+ * @param   {boolean}         dropEmpty - Whether empty parts should be removed.
+ * @returns {string[]}                  - The parts of the string.
+ */
+function splitText(
+	str: string,
+	separator: string | RegExp,
+	limit: number,
+	trimEach: boolean,
+	dropEmpty: boolean,
+): string[] {
+	let parts: string[] = [];
+	if (typeof separator === 'string') {
+		parts = str.split(separator);
+	} else {
+		// slicing around the matches instead of using split keeps the capture groups out of the parts
+		let start = 0;
+		for (const match of matchAll(str, separator)) {
+			const index = match.index as number;
+			// like split, an empty match at the start of a part or at the end does not split
+			if (index === str.length || index + match[0].length === start) continue;
+			parts.push(str.slice(start, index));
+			start = index + match[0].length;
+		}
+		parts.push(str.slice(start));
+	}
+	if (trimEach) parts = parts.map((part) => part.trim());
+	if (dropEmpty) parts = parts.filter((part) => part !== '');
+	if (limit > 0) parts = parts.slice(0, limit);
+	return parts;
+}
+
+/**
+ * Splits a value into the values of the fanned out items. Arrays are split into their elements and
+ * strings by lines, a separator, the matches of a regex or a fixed number of characters.
+ *
+ * @param   {IExecuteFunctions}  this      - The execute functions of the node.
+ * @param   {ManipulatedValue}   value     - The value to split.
+ * @param   {string}             fanOutBy  - How strings are split (lines, separator, regexMatch or size).
+ * @param   {string}             separator - The separator to split by.
+ * @param   {string}             regex     - The regex whose matches are used.
+ * @param   {number}             size      - The number of characters (graphemes) of each part.
+ * @param   {boolean}            dropEmpty - Whether empty parts should be removed.
+ * @param   {number}             itemIndex - The index of the current item.
+ * @returns {ManipulatedValue[]}           - The values of the fanned out items.
+ */
+function fanOutValue(
+	this: IExecuteFunctions,
+	value: ManipulatedValue,
+	fanOutBy: string,
+	separator: string,
+	regex: string,
+	size: number,
+	dropEmpty: boolean,
+	itemIndex: number,
+): ManipulatedValue[] {
+	if (Array.isArray(value)) return value;
+	if (typeof value !== 'string') return [value];
+	let parts: string[];
+	switch (fanOutBy) {
+		case 'lines':
+			parts = value.split(/\r\n|\n|\r/);
+			break;
+		case 'separator':
+			parts = value.split(unescapeEscapedCharacters(separator));
+			break;
+		case 'regexMatch':
+			parts = matchAll(value, parseRegex(regex)).map((match) => match[0]);
+			break;
+		case 'size': {
+			if (size < 1) {
+				throw new NodeOperationError(this.getNode(), 'The size must be at least 1', { itemIndex });
+			}
+			const chars = splitCharacters(value, 'graphemes');
+			parts = [];
+			for (let i = 0; i < chars.length; i += size) parts.push(chars.slice(i, i + size).join(''));
+			break;
+		}
+		default:
+			throw new NodeOperationError(
+				this.getNode(),
+				'lines, separator, regexMatch or size are valid options',
+				{ itemIndex },
+			);
+	}
+	return dropEmpty ? parts.filter((part) => part !== '') : parts;
+}
+
+/**
+ * Finds the fenced code blocks and headings of a markdown text.
+ *
+ * @param   {string} str - The markdown text.
+ * @returns {{ codeBlocks: Array<[number, number]>, headings: number[] }} - The ranges of the code
+ *   blocks and the start offsets of the headings outside of code blocks.
+ */
+function markdownStructure(str: string): {
+	codeBlocks: Array<[number, number]>;
+	headings: number[];
+} {
+	const codeBlocks: Array<[number, number]> = [];
+	const headings: number[] = [];
+	let fence: string | undefined;
+	let blockStart = 0;
+	let lineStart = 0;
+	while (lineStart < str.length) {
+		const newline = str.indexOf('\n', lineStart);
+		const lineEnd = newline === -1 ? str.length : newline + 1;
+		const line = str.substring(lineStart, lineEnd);
+		const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+		if (fence === undefined) {
+			if (fenceMatch) {
+				fence = fenceMatch[1];
+				blockStart = lineStart;
+			} else if (/^#{1,6}(?:[ \t]|$)/.test(line)) {
+				headings.push(lineStart);
+			}
+		} else if (
+			fenceMatch &&
+			fenceMatch[1][0] === fence[0] &&
+			fenceMatch[1].length >= fence.length &&
+			line.substring(fenceMatch[0].length).trim() === ''
+		) {
+			codeBlocks.push([blockStart, lineEnd]);
+			fence = undefined;
+		}
+		lineStart = lineEnd;
+	}
+	// an unclosed code block reaches to the end of the text
+	if (fence !== undefined) codeBlocks.push([blockStart, str.length]);
+	return { codeBlocks, headings };
+}
+
+/**
+ * Splits a string into chunks with a maximum size and an overlap between following chunks.
+ *
+ * @param   {IExecuteFunctions} this            - The execute functions of the node.
+ * @param   {string}            str             - The string to split.
+ * @param   {string}            unit            - What the size is measured in (characters, words,
+ *   sentences, paragraphs or tokens).
+ * @param   {number}            size            - The maximum size of a chunk.
+ * @param   {number}            overlap         - The size which is repeated from the end of the
+ *   previous chunk.
+ * @param   {boolean}           respectMarkdown - Whether code blocks should not be split and
+ *   headings should start a new chunk.
+ * @param   {number}            itemIndex       - The index of the current item.
+ * @returns {TextPart[]}                        - The chunks with their offsets in the string.
+ */
+function chunkText(
+	this: IExecuteFunctions,
+	str: string,
+	unit: string,
+	size: number,
+	overlap: number,
+	respectMarkdown: boolean,
+	itemIndex: number,
+): TextPart[] {
+	// the offsets where a unit starts
+	let starts: number[];
+	switch (unit) {
+		case 'characters':
+			starts = segmentText(str, 'grapheme').map((segment) => segment.index);
+			break;
+		case 'words':
+		case 'tokens':
+			// whitespace and punctuation belong to the previous word
+			starts = segmentText(str, 'word')
+				.filter((segment) => segment.isWordLike)
+				.map((segment) => segment.index);
+			break;
+		case 'sentences':
+			starts = segmentText(str, 'sentence').map((segment) => segment.index);
+			break;
+		case 'paragraphs':
+			starts = matchAll(str, /(?:\r\n|\r(?!\n)|\n)[ \t]*(?:\r\n|\r|\n)\s*/g).map(
+				(match) => (match.index as number) + match[0].length,
+			);
+			break;
+		default:
+			throw new NodeOperationError(
+				this.getNode(),
+				'characters, words, sentences, paragraphs or tokens are valid options',
+				{ itemIndex },
+			);
+	}
+	let boundaries = starts;
+	const structure = respectMarkdown ? markdownStructure(str) : { codeBlocks: [], headings: [] };
+	for (const [start, end] of structure.codeBlocks) {
+		// a code block is a single unit
+		boundaries = boundaries.filter((boundary) => boundary <= start || boundary >= end);
+		boundaries.push(start, end);
+	}
+	boundaries = Array.from(new Set([0, ...boundaries, ...structure.headings]))
+		.filter((boundary) => boundary < str.length)
+		.sort((a, b) => a - b);
+	const headings = new Set(structure.headings);
+	let startIndex = 0;
+	const units = boundaries.map((start, index) => {
+		const end = index + 1 < boundaries.length ? boundaries[index + 1] : str.length;
+		let weight = 0;
+		switch (unit) {
+			case 'characters':
+			case 'words':
+				// count the characters or words which start in the unit
+				for (; startIndex < starts.length && starts[startIndex] < end; startIndex++) {
+					if (starts[startIndex] >= start) weight++;
+				}
+				break;
+			case 'tokens':
+				// roughly four characters are one token
+				weight = (end - start) / 4;
+				break;
+			default:
+				weight = str.substring(start, end).trim() === '' ? 0 : 1;
+		}
+		return { start, end, weight, heading: headings.has(start) };
+	});
+
+	const chunks: TextPart[] = [];
+	let first = 0;
+	while (first < units.length) {
+		// a unit which is bigger than the size gets its own chunk
+		let next = first + 1;
+		let weight = units[first].weight;
+		while (next < units.length && !units[next].heading && weight + units[next].weight <= size) {
+			weight += units[next].weight;
+			next++;
+		}
+		const text = str.substring(units[first].start, units[next - 1].end);
+		const start = units[first].start + (text.length - text.trimStart().length);
+		const end = units[next - 1].end - (text.length - text.trimEnd().length);
+		if (start < end) {
+			chunks.push({ index: chunks.length, text: str.substring(start, end), start, end });
+		}
+		if (next >= units.length) break;
+		const last = first;
+		first = next;
+		// a new section does not repeat the end of the previous section
+		if (units[next].heading) continue;
+		// the overlap is only repeated if the next unit still fits into the chunk
+		let overlapWeight = 0;
+		while (
+			first - 1 > last &&
+			overlapWeight + units[first - 1].weight <= overlap &&
+			overlapWeight + units[first - 1].weight + units[next].weight <= size
+		) {
+			overlapWeight += units[first - 1].weight;
+			first--;
+		}
+	}
+	return chunks;
+}
+
+/**
+ * Estimates the number of syllables of an english word.
+ *
+ * @param   {string} word - The word.
+ * @returns {number}      - The number of syllables, at least `1`.
+ */
+function countSyllables(word: string): number {
+	word = word.toLowerCase().replace(/[^a-z]/g, '');
+	if (word.length <= 3) return 1;
+	// a silent e at the end (but not -le) and -es/-ed endings are not a syllable
+	word = word.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, (ending) => ending[0]);
+	word = word.replace(/^y/, '');
+	return Math.max(1, (word.match(/[aeiouy]+/g) ?? []).length);
+}
+
+/**
+ * Collects statistics of a string.
+ *
+ * @param   {string} str            - The string.
+ * @param   {string} encoding       - The encoding which is used to count the bytes.
+ * @param   {string} language       - The language which is used to find words and sentences.
+ * @param   {number} wordsPerMinute - The reading speed which is used to estimate the reading time.
+ * @returns {{ [key: string]: number | null }} - The statistics.
+ */
+function textStatistics(
+	str: string,
+	encoding: string,
+	language: string,
+	wordsPerMinute: number,
+): { [key: string]: number | null } {
+	const round = (value: number) => Math.round(value * 100) / 100;
+	const words = segmentText(str, 'word', language || undefined)
+		.filter((segment) => segment.isWordLike)
+		.map((segment) => segment.segment);
+	const sentences = segmentText(str, 'sentence', language || undefined).filter(
+		(segment) => segment.segment.trim() !== '',
+	).length;
+	const normalized = str.replace(/\r\n?/g, '\n');
+	const lines =
+		normalized === '' ? 0 : normalized.split('\n').length - (normalized.endsWith('\n') ? 1 : 0);
+	const paragraphs = normalized
+		.split(/\n[ \t]*\n\s*/)
+		.filter((paragraph) => paragraph.trim() !== '').length;
+	const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+	return {
+		codeUnits: str.length,
+		codePoints: Array.from(str).length,
+		graphemes: splitCharacters(str, 'graphemes').length,
+		bytes: iconv.encode(str, encoding, { addBOM: false }).length,
+		words: words.length,
+		sentences,
+		lines,
+		paragraphs,
+		averageWordLength:
+			words.length === 0
+				? 0
+				: round(
+					words.reduce((sum, word) => sum + splitCharacters(word, 'graphemes').length, 0) /
+						words.length,
+				),
+		readingTimeSeconds: wordsPerMinute > 0 ? Math.ceil((words.length / wordsPerMinute) * 60) : null,
+		// the Flesch reading ease is defined for english texts
+		fleschReadingEase:
+			words.length === 0 || sentences === 0
+				? null
+				: round(206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length)),
+	};
+}
+
+/**
+ * Splits a string into graphemes, words or sentences with the rules of a language.
+ *
+ * @param   {string}                           str             - The string to split.
+ * @param   {'grapheme' | 'word' | 'sentence'} granularity     - The kind of the tokens.
+ * @param   {string}                           language        - The language of the string.
+ * @param   {boolean}                          dropWhitespace  - Whether whitespace tokens should be
+ *   removed and sentences should be trimmed.
+ * @param   {boolean}                          dropPunctuation - Whether punctuation and symbol tokens
+ *   should be removed.
+ * @param   {boolean}                          includeOffsets  - Whether the tokens should contain
+ *   their offsets in the string.
+ * @returns {string[] | TextPart[]}                            - The tokens.
+ */
+function tokenizeText(
+	str: string,
+	granularity: 'grapheme' | 'word' | 'sentence',
+	language: string,
+	dropWhitespace: boolean,
+	dropPunctuation: boolean,
+	includeOffsets: boolean,
+): string[] | TextPart[] {
+	const tokens: TextPart[] = [];
+	for (const segment of segmentText(str, granularity, language || undefined)) {
+		let text = segment.segment;
+		let start = segment.index;
+		if (dropWhitespace) {
+			if (text.trim() === '') continue;
+			start += text.length - text.trimStart().length;
+			text = text.trim();
+		}
+		if (
+			dropPunctuation &&
+			(granularity === 'word'
+				? !segment.isWordLike && text.trim() !== ''
+				: /^[\p{P}\p{S}]+$/u.test(text))
+		) {
+			continue;
+		}
+		tokens.push({ index: tokens.length, text, start, end: start + text.length });
+	}
+	return includeOffsets ? tokens : tokens.map((token) => token.text);
+}
+
+/**
+ * Renders a template. Placeholders like `{{json.customer.name}}` are resolved against the data and
+ * can be followed by filters like `{{text | upper | default:"n/a" | pad:10}}`.
+ *
+ * @param   {IExecuteFunctions} this      - The execute functions of the node.
+ * @param   {string}            template  - The template with the placeholders.
+ * @param   {IDataObject}       data      - The data to resolve the placeholders against.
+ * @param   {number}            itemIndex - The index of the current item.
+ * @returns {string}                      - The rendered template.
+ */
+function renderTemplate(
+	this: IExecuteFunctions,
+	template: string,
+	data: IDataObject,
+	itemIndex: number,
+): string {
+	return template.replace(/\{\{([\s\S]*?)\}\}/g, (_, expression: string) => {
+		// split by pipes which are not inside of quotes
+		const [path, ...filters] = (
+			expression.match(/(?:[^|"']|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')+/g) ?? ['']
+		).map((part) => part.trim());
+		let value: unknown = get(data, path);
+		for (const filter of filters) {
+			const filterMatch = filter.match(/^(\w+)\s*(?::\s*([\s\S]*))?$/);
+			const name = filterMatch?.[1];
+			let argument = filterMatch?.[2] ?? '';
+			const quotedMatch = argument.match(/^"([\s\S]*)"$|^'([\s\S]*)'$/);
+			if (quotedMatch) argument = unescapeEscapedCharacters(quotedMatch[1] ?? quotedMatch[2]);
+			if (name === 'default') {
+				if (value == null || value === '') value = argument;
+				continue;
+			}
+			const str = typeof value === 'string' ? value : value == null ? '' : JSON.stringify(value);
+			switch (name) {
+				case 'upper':
+					value = str.toUpperCase();
+					break;
+				case 'lower':
+					value = str.toLowerCase();
+					break;
+				case 'capitalize':
+					value = capitalize(str);
+					break;
+				case 'trim':
+					value = str.trim();
+					break;
+				case 'pad':
+					value = str.padEnd(parseInt(argument, 10) || 0);
+					break;
+				case 'padStart':
+					value = str.padStart(parseInt(argument, 10) || 0);
+					break;
+				case 'json':
+					value = JSON.stringify(value ?? null);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						`The filter "${filter}" is unknown. upper, lower, capitalize, trim, default, pad, padStart or json are valid filters`,
+						{ itemIndex },
+					);
+			}
+		}
+		return typeof value === 'string' ? value : value == null ? '' : JSON.stringify(value);
+	});
+}
+
+/**
+ * Converts a string to another type.
+ *
+ * @param   {IExecuteFunctions} this      - The execute functions of the node.
+ * @param   {string}            str       - The string to convert.
+ * @param   {string}            type      - The type to convert to (keep, number, boolean, json or
+ *   nullIfEmpty).
+ * @param   {number}            itemIndex - The index of the current item.
+ * @returns {ManipulatedValue}            - The converted value.
+ */
+function convertValue(
+	this: IExecuteFunctions,
+	str: string,
+	type: string,
+	itemIndex: number,
+): ManipulatedValue {
+	switch (type) {
+		case 'keep':
+			return str;
+		case 'number': {
+			const number = Number(str.trim());
+			if (str.trim() === '' || isNaN(number))
+				throw new NodeOperationError(
+					this.getNode(),
+					`"${str}" can not be converted to a number!`,
+					{ itemIndex },
+				);
+			return number;
+		}
+		case 'boolean':
+			switch (str.trim().toLowerCase()) {
+				case 'true':
+				case '1':
+				case 'yes':
+				case 'on':
+					return true;
+				case 'false':
+				case '0':
+				case 'no':
+				case 'off':
+					return false;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						`"${str}" can not be converted to a boolean!`,
+						{ itemIndex },
+					);
+			}
+		case 'json':
+			try {
+				return JSON.parse(str) as ManipulatedValue;
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`"${str}" can not be parsed as JSON: ${(error as Error).message}`,
+					{ itemIndex },
+				);
+			}
+		case 'nullIfEmpty':
+			return str === '' ? null : str;
+		default:
+			throw new NodeOperationError(
+				this.getNode(),
+				'keep, number, boolean, json or nullIfEmpty are valid options',
+				{ itemIndex },
+			);
+	}
+}
+
+/**
+ * Applies a manipulation to a text.
+ *
+ * @param   {IExecuteFunctions} this         - The execute functions of the node.
+ * @param   {string}            text         - The text to manipulate.
+ * @param   {INodeParameters}   manipulation - The parameters of the manipulation.
+ * @param   {IDataObject}       json         - The JSON of the current item.
+ * @param   {number}            itemIndex    - The index of the current item.
+ * @returns {ManipulatedValue}               - The manipulated text or the data produced from it.
+ */
+function manipulateText(
+	this: IExecuteFunctions,
+	text: string,
+	manipulation: INodeParameters,
+	json: IDataObject,
+	itemIndex: number,
+): ManipulatedValue {
+	switch (manipulation.action) {
+		case 'concat':
+			text =
+				((manipulation.before as string | null) ?? '') +
+				text +
+				((manipulation.after as string | null) ?? '');
+			break;
+		case 'decodeEncode': {
+			let buffer: Buffer;
+			switch (manipulation.decodeBinaryToTextWith) {
+				case 'base32':
+				case 'base64':
+				case 'base64url':
+				case 'hex':
+				case 'quotedPrintable':
+				case 'uuencode':
+					buffer = decodeBinaryToText.call(
+						this,
+						text,
+						manipulation.decodeBinaryToTextWith,
+						itemIndex,
+					);
+					break;
+				case 'nothing':
+					if (
+						manipulation.encodeWith === manipulation.decodeWith &&
+						manipulation.encodeBinaryToTextWith === 'nothing'
+					)
+						return text;
+					buffer = Buffer.from(text);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'base32, base64, base64url, hex, quotedPrintable, uuencode or nothing are valid options',
+						{ itemIndex },
+					);
+			}
+			buffer = iconv.encode(
+				iconv.decode(buffer, manipulation.decodeWith as string, {
+					addBOM: manipulation.addBOM as boolean,
+				}),
+				manipulation.encodeWith as string,
+				{ stripBOM: manipulation.stripBOM as boolean },
+			);
+			switch (manipulation.encodeBinaryToTextWith) {
+				case 'base32':
+				case 'base64':
+				case 'base64url':
+				case 'hex':
+				case 'quotedPrintable':
+				case 'uuencode':
+					text = encodeBinaryToText(buffer, manipulation.encodeBinaryToTextWith);
+					break;
+				case 'nothing':
+					text = buffer.toString();
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'base32, base64, base64url, hex, quotedPrintable, uuencode or nothing are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'decodeEncodeEntities':
+			if (manipulation.encodeWithEntities !== manipulation.decodeWithEntities) {
+				switch (manipulation.decodeWithEntities) {
+					case 'base32':
+					case 'base64':
+					case 'base64url':
+					case 'hex':
+					case 'quotedPrintable':
+					case 'uuencode':
+						text = decodeBinaryToText
+							.call(this, text, manipulation.decodeWithEntities, itemIndex)
+							.toString();
+						break;
+					case 'url':
+						text = decodeURI(text);
+						break;
+					case 'urlComponent':
+						text = decodeURIComponent(text);
+						break;
+					case 'xml':
+						switch (manipulation.entitiesDecodeMode) {
+							case 'legacy':
+								text = entities.decodeXML(text);
+								break;
+							case 'strict':
+								text = entities.decodeXMLStrict(text);
+								break;
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'legacy or strict are valid options',
+									{ itemIndex },
+								);
+						}
+						break;
+					case 'html':
+						switch (manipulation.entitiesDecodeMode) {
+							case 'legacy':
+								text = entities.decodeHTML(text);
+								break;
+							case 'strict':
+								text = entities.decodeHTMLStrict(text);
+								break;
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'legacy or strict are valid options',
+									{ itemIndex },
+								);
+						}
+						break;
+					case 'nothing':
+						break;
+					default:
+						throw new NodeOperationError(
+							this.getNode(),
+							'base32, base64, base64url, hex, quotedPrintable, uuencode, url, urlComponent, xml, html or nothing are valid options',
+							{ itemIndex },
+						);
+				}
+
+				switch (manipulation.encodeWithEntities) {
+					case 'base32':
+					case 'base64':
+					case 'base64url':
+					case 'hex':
+					case 'quotedPrintable':
+					case 'uuencode':
+						text = encodeBinaryToText(Buffer.from(text), manipulation.encodeWithEntities);
+						break;
+					case 'url':
+						text = encodeURI(text);
+						break;
+					case 'urlComponent':
+						text = encodeURIComponent(text);
+						break;
+					case 'xml':
+						switch (manipulation.entitiesEncodeMode) {
+							case 'extensive':
+								text = entities.encodeXML(text);
+								break;
+							case 'utf8':
+								text = entities.escapeUTF8(text);
+								break;
+							case 'nonAscii':
+								text = entities.encodeXML(text);
+								break;
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'extensive, utf8 or nonAscii are valid options',
+									{ itemIndex },
+								);
+						}
+						break;
+					case 'html':
+						switch (manipulation.entitiesEncodeMode) {
+							case 'extensive':
+								text = entities.encodeHTML(text);
+								break;
+							case 'utf8':
+								text = entities.escapeUTF8(text);
+								break;
+							case 'nonAscii':
+								text = entities.encodeNonAsciiHTML(text);
+								break;
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'extensive, utf8 or nonAscii are valid options',
+									{ itemIndex },
+								);
+						}
+						break;
+					case 'nothing':
+						break;
+					default:
+						throw new NodeOperationError(
+							this.getNode(),
+							'base32, base64, base64url, hex, quotedPrintable, uuencode, url, urlComponent, xml, html or nothing are valid options',
+							{ itemIndex },
+						);
+				}
+			}
+			break;
+		case 'letterCase': {
+			// the words are only split by the node if an option needs it, otherwise lodash is used
+			const splitWords = !!(manipulation.preserveAcronyms || manipulation.wordPattern);
+			const convert = (caseType: string) =>
+				joinWords(
+					manipulation.wordPattern
+						? matchAll(text, parseRegex(manipulation.wordPattern as string)).map((match) => match[0])
+						: words(text.replace(/['\u2019]/g, '')),
+					caseType,
+					manipulation.preserveAcronyms as boolean,
+				);
+			switch (manipulation.caseType) {
+				case 'camelCase':
+					text = splitWords ? convert('camelCase') : camelCase(text);
+					break;
+				case 'capitalize':
+					text = capitalize(text);
+					break;
+				case 'titlecase':
+					switch ((manipulation.titleCaseStyle as string | undefined) ?? 'simple') {
+						case 'simple':
+							text = text.split(' ').map(capitalize).join(' ');
+							break;
+						case 'ap':
+						case 'apa':
+						case 'chicago':
+						case 'firstWord':
+							text = titleCase(
+								text,
+								manipulation.titleCaseStyle as string,
+								(manipulation.language as string | undefined) ?? 'en',
+							);
+							break;
+						default:
+							throw new NodeOperationError(
+								this.getNode(),
+								'simple, ap, apa, chicago or firstWord are valid options',
+								{ itemIndex },
+							);
+					}
+					break;
+				case 'kebabCase':
+					text = splitWords ? convert('kebabCase') : kebabCase(text);
+					break;
+				case 'snakeCase':
+					text = splitWords ? convert('snakeCase') : snakeCase(text);
+					break;
+				case 'startCase':
+					text = splitWords ? convert('startCase') : startCase(text);
+					break;
+				case 'constantCase':
+				case 'dotCase':
+				case 'pascalCase':
+				case 'pathCase':
+				case 'sentenceCase':
+				case 'trainCase':
+					text = convert(manipulation.caseType);
+					break;
+				case 'swapCase':
+					text = Array.from(text, (char) =>
+						char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase(),
+					).join('');
+					break;
+				case 'upperCase':
+					text = text.toUpperCase();
+					break;
+				case 'lowerCase':
+					text = text.toLowerCase();
+					break;
+				case 'localeUpperCase':
+					text = text.toLocaleUpperCase(manipulation.language as string);
+					break;
+				case 'localeLowerCase':
+					text = text.toLocaleLowerCase(manipulation.language as string);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'upperCase, lowerCase, localeUpperCase, localeLowerCase, capitalize, titlecase, camelCase, kebabCase, snakeCase, startCase, constantCase, dotCase, pascalCase, pathCase, sentenceCase, trainCase or swapCase are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'normalize':
+			switch (manipulation.normalizeForm) {
+				case 'nfc':
+					text = text.normalize('NFC');
+					break;
+				case 'nfd':
+					text = text.normalize('NFD');
+					break;
+				case 'nfkc':
+					text = text.normalize('NFKC');
+					break;
+				case 'nfkd':
+					text = text.normalize('NFKD');
+					break;
+			}
+			break;
+		case 'replace':
+			switch (manipulation.replaceMode) {
+				case 'substring':
+					if (manipulation.replaceAll) {
+						text = replaceAll(
+							text,
+							manipulation.substring as string,
+							manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string),
+						);
+					} else {
+						text = text.replace(
+							manipulation.substring as string,
+							manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string),
+						);
+					}
+					break;
+				case 'extendedSubstring':
+					if (manipulation.replaceAll) {
+						text = replaceAll(
+							text,
+							unescapeEscapedCharacters(manipulation.substring as string),
+							manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string),
+						);
+					} else {
+						text = text.replace(
+							unescapeEscapedCharacters(manipulation.substring as string),
+							manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string),
+						);
+					}
+					break;
+				case 'regex':
+					text = text.replace(
+						parseRegex(manipulation.regex as string),
+						manipulation.extended
+							? unescapeEscapedCharacters(manipulation.pattern as string)
+							: (manipulation.pattern as string),
+					);
+					break;
+				case 'predefinedRule':
+					switch (manipulation.predefinedRule) {
+						case 'tags': {
+							const value = manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string);
+							text = stringStripHtml.stripHtml(text, {
+								stripRecognisedHTMLOnly: manipulation.onlyRecognisedHTML as boolean,
+								skipHtmlDecoding: true,
+								cb: (obj) => {
+									if (obj.deleteFrom && obj.deleteTo) {
+										if (obj.tag.slashPresent)
+											obj.rangesArr.push(
+												obj.deleteFrom,
+												obj.deleteTo,
+												`${value}${obj.insert ?? ''}`,
+											);
+										else
+											obj.rangesArr.push(
+												obj.deleteFrom,
+												obj.deleteTo,
+												`${value}${obj.insert ?? ''}`,
+											);
+									} else obj.rangesArr.push(obj.proposedReturn);
+								},
+							}).result;
+							break;
+						}
+						case 'characterGroups': {
+							const groups = [];
+							if (manipulation.newline)
+								groups.push(
+									buildRegexGroup(
+										'(\\r\\n|\\r|\\n)',
+										manipulation.newlineMin as number,
+										manipulation.newlineMax as number,
+									),
+								);
+							if (manipulation.number)
+								groups.push(
+									buildRegexGroup(
+										'\\d',
+										manipulation.numberMin as number,
+										manipulation.numberMax as number,
+									),
+								);
+							if (manipulation.alpha)
+								groups.push(
+									buildRegexGroup(
+										'[a-zA-Z]',
+										manipulation.alphaMin as number,
+										manipulation.alphaMax as number,
+									),
+								);
+							if (manipulation.whitespace)
+								groups.push(
+									buildRegexGroup(
+										'\\s',
+										manipulation.whitespaceMin as number,
+										manipulation.whitespaceMax as number,
+									),
+								);
+							const unicodeGroups = (manipulation.unicodeGroups as string[] | undefined) ?? [];
+							if (unicodeGroups.includes('emoji')) {
+								// flags, keycaps and pictographs with modifiers and joined pictographs
+								groups.push(
+									'\\p{Regional_Indicator}{2}|[#*0-9]\\uFE0F?\\u20E3|\\p{Extended_Pictographic}(?:\\uFE0F|\\p{Emoji_Modifier})?(?:\\u200D\\p{Extended_Pictographic}(?:\\uFE0F|\\p{Emoji_Modifier})?)*',
+								);
+							}
+							const characterClass = [
+								...unicodeGroups
+									.filter((group) => group !== 'emoji')
+									.map((group) => unicodeCategories[group]),
+								...((manipulation.scripts as string[] | undefined) ?? []).map(
+									(script) => `\\p{Script=${script}}`,
+								),
+								(manipulation.customClass as string | undefined) ?? '',
+							].join('');
+							if (characterClass !== '') groups.push(`[${characterClass}]`);
+							let regex: RegExp;
+							try {
+								regex = new RegExp(groups.join('|'), 'gu');
+							} catch (error) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`The Custom Class is not valid: ${(error as Error).message}`,
+									{ itemIndex },
+								);
+							}
+							const value = manipulation.extended
+								? unescapeEscapedCharacters(manipulation.value as string)
+								: (manipulation.value as string);
+							switch ((manipulation.characterGroupsMode as string | undefined) ?? 'replace') {
+								case 'replace':
+									text = text.replace(regex, value);
+									break;
+								case 'keepOnly': {
+									// each run of other characters is replaced once
+									let kept = '';
+									let end = 0;
+									for (const match of matchAll(text, regex)) {
+										if (match[0] === '') continue;
+										if ((match.index as number) > end) kept += value;
+										kept += match[0];
+										end = (match.index as number) + match[0].length;
+									}
+									if (end < text.length) kept += value;
+									text = kept;
+									break;
+								}
+								default:
+									throw new NodeOperationError(
+										this.getNode(),
+										'replace or keepOnly are valid options',
+										{ itemIndex },
+									);
+							}
+							break;
+						}
+						case 'invisibleCharacters': {
+							const groups = [];
+							if (manipulation.zeroWidth) {
+								// the zero width joiner is kept between emojis and both joiners are kept between
+								// letters (like in Persian or after a virama in Indic scripts)
+								groups.push(
+									'[\\u200B\\u2060-\\u2064\\u180E]',
+									'(?<![\\p{L}\\p{M}])\\u200C|\\u200C(?!\\p{L})',
+									'(?!(?<=\\p{Extended_Pictographic}[\\uFE0F\\u{1F3FB}-\\u{1F3FF}]?)\\u200D\\p{Extended_Pictographic})(?!(?<=[\\p{L}\\p{M}])\\u200D\\p{L})\\u200D',
+								);
+							}
+							if (manipulation.softHyphen) groups.push('\\u00AD');
+							if (manipulation.byteOrderMark) groups.push('\\uFEFF');
+							if (manipulation.controlCharacters)
+								groups.push('[\\x00-\\x08\\x0B\\x0C\\x0E-\\x1F\\x7F-\\x9F]');
+							if (manipulation.bidiMarks)
+								groups.push('[\\u200E\\u200F\\u061C\\u202A-\\u202E\\u2066-\\u2069]');
+							if (groups.length === 0) break;
+							const regex = new RegExp(groups.join('|'), 'gu');
+							if (manipulation.revealInvisible) {
+								text = text.replace(
+									regex,
+									(char) =>
+										`<U+${(char.codePointAt(0) as number).toString(16).toUpperCase().padStart(4, '0')}>`,
+								);
+							} else {
+								text = text.replace(
+									regex,
+									manipulation.extended
+										? unescapeEscapedCharacters(manipulation.value as string)
+										: (manipulation.value as string),
+								);
+							}
+							break;
+						}
+						default:
+							throw new NodeOperationError(
+								this.getNode(),
+								'tags, characterGroups or invisibleCharacters are valid options',
+								{ itemIndex },
+							);
+					}
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'substring, extendedSubstring, regex or predefinedRule are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		case 'trim':
+			switch (manipulation.trim) {
+				case 'trimBoth':
+					text = manipulation.trimStringUnit
+						? charsTrim(text, manipulation.trimString as string)
+						: trim(text, manipulation.trimString as string);
+					break;
+				case 'trimStart':
+					text = manipulation.trimStringUnit
+						? charsTrimStart(text, manipulation.trimString as string)
+						: trimStart(text, manipulation.trimString as string);
+					break;
+				case 'trimEnd':
+					text = manipulation.trimStringUnit
+						? charsTrimEnd(text, manipulation.trimString as string)
+						: trimEnd(text, manipulation.trimString as string);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'trimBoth, trimStart or trimEnd are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		case 'pad':
+			if (manipulation.targetLength == null || (manipulation.targetLength as number) < 0)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Target Length has to be set to at least 0 or higher!',
+					{ itemIndex },
+				);
+			switch (manipulation.pad) {
+				case 'padStart':
+					text = padCharacters(
+						text,
+						manipulation.targetLength as number,
+						manipulation.padString as string,
+						manipulation.countBy as string,
+						true,
+					);
+					break;
+				case 'padEnd':
+					text = padCharacters(
+						text,
+						manipulation.targetLength as number,
+						manipulation.padString as string,
+						manipulation.countBy as string,
+						false,
+					);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'padStart or padEnd are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		case 'substring': {
+			const characters = splitCharacters(text, manipulation.countBy as string);
+			switch (manipulation.end) {
+				case 'complete':
+					text = substringCharacters(characters, manipulation.startPosition as number);
+					break;
+				case 'position':
+					text = substringCharacters(
+						characters,
+						manipulation.startPosition as number,
+						manipulation.endPosition as number,
+					);
+					break;
+				case 'length':
+					if (manipulation.endLength == null || (manipulation.endLength as number) < 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'The Length has to be set to at least 0 or higher!',
+							{ itemIndex },
+						);
+					}
+					if (((manipulation.startPosition as number | null) || 0) < 0)
+						text = substringCharacters(
+							characters,
+							manipulation.startPosition as number,
+							characters.length +
+							(manipulation.startPosition as number) +
+							(manipulation.endLength as number),
+						);
+					else
+						text = substringCharacters(
+							characters,
+							manipulation.startPosition as number,
+							(manipulation.startPosition as number) + (manipulation.endLength as number),
+						);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'complete, position or length are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'repeat':
+			if (manipulation.times == null || (manipulation.times as number) < 0)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Times has to be set to at least 0 or higher!',
+					{ itemIndex },
+				);
+			text = text.repeat(manipulation.times as number);
+			break;
+		case 'split': {
+			let separator: string | RegExp;
+			switch (manipulation.splitMode) {
+				case 'substring':
+					separator = manipulation.separator as string;
+					break;
+				case 'extendedSubstring':
+					separator = unescapeEscapedCharacters(manipulation.separator as string);
+					break;
+				case 'regex':
+					separator = parseRegex(manipulation.splitRegex as string);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'substring, extendedSubstring or regex are valid options',
+						{ itemIndex },
+					);
+			}
+			if ((manipulation.maxParts as number) < 0)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Max Parts has to be set to at least 0 or higher!',
+					{ itemIndex },
+				);
+			return splitText(
+				text,
+				separator,
+				(manipulation.maxParts as number | null) ?? 0,
+				manipulation.trimEach as boolean,
+				manipulation.dropEmpty as boolean,
+			);
+		}
+		case 'extract': {
+			const regex = parseRegex(manipulation.extractRegex as string);
+			switch (manipulation.extractMode) {
+				case 'firstMatch':
+					return (regex.global ? matchAll(text, regex)[0] : text.match(regex))?.[0] ?? null;
+				case 'allMatches':
+					return matchAll(text, regex).map((match) => match[0]);
+				case 'captureGroup': {
+					const group = (manipulation.captureGroup as number | null) ?? 1;
+					if (regex.global) return matchAll(text, regex).map((match) => match[group] ?? null);
+					return text.match(regex)?.[group] ?? null;
+				}
+				case 'namedGroups': {
+					if (regex.global) return matchAll(text, regex).map(namedGroups);
+					const match = text.match(regex);
+					return match ? namedGroups(match) : null;
+				}
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'firstMatch, allMatches, captureGroup or namedGroups are valid options',
+						{ itemIndex },
+					);
+			}
+		}
+		case 'hash': {
+			const buffer = iconv.encode(text, manipulation.hashEncodeWith as string, { addBOM: false });
+			let digest: Buffer;
+			switch (manipulation.hashAlgorithm) {
+				case 'crc32':
+					digest = crc32(buffer);
+					break;
+				case 'md5':
+				case 'sha1':
+				case 'sha256':
+				case 'sha512':
+				case 'sha3-256':
+				case 'sha3-512':
+					digest = (
+						manipulation.hmac
+							? createHmac(manipulation.hashAlgorithm, manipulation.hmacSecret as string)
+							: createHash(manipulation.hashAlgorithm)
+					)
+						.update(buffer)
+						.digest();
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'md5, sha1, sha256, sha512, sha3-256, sha3-512 or crc32 are valid options',
+						{ itemIndex },
+					);
+			}
+			switch (manipulation.hashOutput) {
+				case 'hex':
+				case 'base64':
+				case 'base64url':
+					text = digest.toString(manipulation.hashOutput);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'hex, base64 or base64url are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'lines':
+			text = mapLines(text, (lines) => {
+				switch (manipulation.linesOperation) {
+					case 'sort': {
+						// the direction is applied in the comparators so that lines which are not a number stay
+						// at the end when sorting numerically in descending order
+						const direction = manipulation.sortDescending ? -1 : 1;
+						let compare: (a: string, b: string) => number;
+						switch (manipulation.sortMode) {
+							case 'lexical':
+								compare = (a, b) => direction * (a < b ? -1 : a > b ? 1 : 0);
+								break;
+							case 'numeric':
+								compare = (a, b) => {
+									const numberA = parseFloat(a);
+									const numberB = parseFloat(b);
+									// lines which are not a number are sorted to the end
+									if (isNaN(numberA)) return isNaN(numberB) ? 0 : 1;
+									if (isNaN(numberB)) return -1;
+									return direction * (numberA - numberB);
+								};
+								break;
+							case 'natural': {
+								const collator = new Intl.Collator(undefined, { numeric: true });
+								compare = (a, b) => direction * collator.compare(a, b);
+								break;
+							}
+							case 'locale': {
+								const collator = new Intl.Collator(manipulation.language as string);
+								compare = (a, b) => direction * collator.compare(a, b);
+								break;
+							}
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'lexical, numeric, natural or locale are valid options',
+									{ itemIndex },
+								);
+						}
+						return lines.sort(compare);
+					}
+					case 'unique': {
+						const seen = new Set<string>();
+						const keepLast = manipulation.keep === 'last';
+						if (keepLast) lines.reverse();
+						lines = lines.filter((line) => {
+							const key = manipulation.caseSensitive ? line : line.toLowerCase();
+							if (seen.has(key)) return false;
+							seen.add(key);
+							return true;
+						});
+						if (keepLast) lines.reverse();
+						return lines;
+					}
+					case 'reverse':
+						return lines.reverse();
+					case 'shuffle': {
+						const random = createRandom((manipulation.seed as string | null) ?? '');
+						for (let i = lines.length - 1; i > 0; i--) {
+							const j = Math.floor(random() * (i + 1));
+							[lines[i], lines[j]] = [lines[j], lines[i]];
+						}
+						return lines;
+					}
+					default:
+						throw new NodeOperationError(
+							this.getNode(),
+							'sort, unique, reverse or shuffle are valid options',
+							{ itemIndex },
+						);
+				}
+			});
+			break;
+		case 'filterLines':
+			text = mapLines(text, (lines) => {
+				switch (manipulation.filterLinesBy) {
+					case 'match': {
+						let isMatch: (line: string) => boolean;
+						switch (manipulation.matchMode) {
+							case 'substring': {
+								const substring = manipulation.filterSubstring as string;
+								isMatch = (line) => line.includes(substring);
+								break;
+							}
+							case 'extendedSubstring': {
+								const substring = unescapeEscapedCharacters(manipulation.filterSubstring as string);
+								isMatch = (line) => line.includes(substring);
+								break;
+							}
+							case 'regex': {
+								const regex = parseRegex(manipulation.filterRegex as string);
+								// without global and sticky flag test does not depend on previous matches
+								const lineRegex = new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''));
+								isMatch = (line) => lineRegex.test(line);
+								break;
+							}
+							default:
+								throw new NodeOperationError(
+									this.getNode(),
+									'substring, extendedSubstring or regex are valid options',
+									{ itemIndex },
+								);
+						}
+						const before = (manipulation.contextBefore as number | null) ?? 0;
+						const after = (manipulation.contextAfter as number | null) ?? 0;
+						if (before < 0 || after < 0)
+							throw new NodeOperationError(
+								this.getNode(),
+								'The Context Before and Context After have to be set to at least 0 or higher!',
+								{ itemIndex },
+							);
+						const selected = new Array<boolean>(lines.length).fill(false);
+						lines.forEach((line, index) => {
+							if (!isMatch(line)) return;
+							for (
+								let i = Math.max(0, index - before);
+								i <= Math.min(lines.length - 1, index + after);
+								i++
+							) {
+								selected[i] = true;
+							}
+						});
+						const keep = manipulation.filterAction !== 'remove';
+						return lines.filter((_, index) => selected[index] === keep);
+					}
+					case 'head':
+					case 'tail': {
+						const count = manipulation.lineCount as number;
+						if (count == null || count < 0)
+							throw new NodeOperationError(
+								this.getNode(),
+								'The Line Count has to be set to at least 0 or higher!',
+								{ itemIndex },
+							);
+						if (manipulation.filterLinesBy === 'head') return lines.slice(0, count);
+						return count === 0 ? [] : lines.slice(-count);
+					}
+					case 'range': {
+						const startLine = manipulation.startLine as number;
+						const endLine = manipulation.endLine as number;
+						if (!startLine || !endLine)
+							throw new NodeOperationError(
+								this.getNode(),
+								'The Start Line and End Line can not be 0!',
+								{ itemIndex },
+							);
+						const start = startLine < 0 ? lines.length + startLine : startLine - 1;
+						const end = endLine < 0 ? lines.length + endLine + 1 : endLine;
+						return lines.slice(Math.max(0, start), Math.max(0, end));
+					}
+					default:
+						throw new NodeOperationError(
+							this.getNode(),
+							'match, head, tail or range are valid options',
+							{ itemIndex },
+						);
+				}
+			});
+			break;
+		case 'template':
+			text = renderTemplate.call(this, manipulation.template as string, { text, json }, itemIndex);
+			break;
+		case 'reverse':
+			text = splitCharacters(text, 'graphemes').reverse().join('');
+			break;
+		case 'truncate': {
+			if (manipulation.maxLength == null || (manipulation.maxLength as number) < 0)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Max Length has to be set to at least 0 or higher!',
+					{ itemIndex },
+				);
+			let measure: (str: string) => number;
+			switch (manipulation.truncateUnit) {
+				case 'characters':
+					measure = (str) => splitCharacters(str, 'graphemes').length;
+					break;
+				case 'bytes':
+					measure = (str) =>
+						iconv.encode(str, manipulation.truncateEncodeWith as string, { addBOM: false }).length;
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'characters or bytes are valid options',
+						{ itemIndex },
+					);
+			}
+			if (manipulation.whenTooLong === 'error') {
+				const length = measure(text);
+				if (length > (manipulation.maxLength as number))
+					throw new NodeOperationError(
+						this.getNode(),
+						`The text is ${length} ${manipulation.truncateUnit} long, but only ${manipulation.maxLength} are allowed!`,
+						{ itemIndex },
+					);
+				break;
+			}
+			switch (manipulation.truncateAt) {
+				case 'grapheme':
+				case 'word':
+				case 'sentence':
+					text = truncateText(
+						text,
+						manipulation.maxLength as number,
+						(manipulation.ellipsis as string | null) ?? '',
+						manipulation.truncateAt,
+						manipulation.countEllipsis as boolean,
+						measure,
+					);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'grapheme, word or sentence are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'chunk':
+			if ((manipulation.chunkSize as number) < 1)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Chunk Size has to be set to at least 1 or higher!',
+					{ itemIndex },
+				);
+			if (
+				((manipulation.chunkOverlap as number | null) ?? 0) < 0 ||
+				((manipulation.chunkOverlap as number | null) ?? 0) >= (manipulation.chunkSize as number)
+			)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Overlap has to be set to at least 0 and has to be smaller than the Chunk Size!',
+					{ itemIndex },
+				);
+			return chunkText.call(
+				this,
+				text,
+				manipulation.chunkUnit as string,
+				manipulation.chunkSize as number,
+				(manipulation.chunkOverlap as number | null) ?? 0,
+				manipulation.respectMarkdown as boolean,
+				itemIndex,
+			);
+		case 'slugify':
+			text = slugify(
+				text,
+				(manipulation.slugSeparator as string | null) ?? '',
+				manipulation.slugLowerCase as boolean,
+				(manipulation.slugMaxLength as number | null) ?? 0,
+				parseReplacements.call(this, manipulation.customReplacements, itemIndex),
+			);
+			break;
+		case 'transliterate':
+			text = transliterate(
+				text,
+				parseReplacements.call(this, manipulation.customReplacements, itemIndex),
+			);
+			break;
+		case 'whitespace': {
+			if (manipulation.normalizeSpaces) {
+				// no-break, typographic and ideographic spaces
+				text = text.replace(/[\u00A0\u1680\u2000-\u200A\u202F\u205F\u3000]/g, ' ');
+			}
+			const tabWidth = (manipulation.tabWidth as number | undefined) ?? 4;
+			if (tabWidth < 1)
+				throw new NodeOperationError(
+					this.getNode(),
+					'The Tab Width has to be set to at least 1 or higher!',
+					{ itemIndex },
+				);
+			// every line keeps its own line break, so mixed line breaks are kept as they are
+			const parts = text.split(/(\r\n|\r|\n)/);
+			const newlines = parts.filter((part, index) => index % 2 === 1).concat('');
+			const lines = parts
+				.filter((part, index) => index % 2 === 0)
+				.map((line) => {
+					switch (manipulation.tabs ?? 'keep') {
+						case 'keep':
+							break;
+						case 'toSpaces':
+							line = expandTabs(line, tabWidth);
+							break;
+						case 'toTabs':
+							// only the indentation is converted
+							line = line.replace(/^[ \t]+/, (indentation) => {
+								const width = expandTabs(indentation, tabWidth).length;
+								return '\t'.repeat(Math.floor(width / tabWidth)) + ' '.repeat(width % tabWidth);
+							});
+							break;
+						default:
+							throw new NodeOperationError(
+								this.getNode(),
+								'keep, toSpaces or toTabs are valid options',
+								{ itemIndex },
+							);
+					}
+					if (manipulation.collapseSpaces) line = line.replace(/(?<=\S) {2,}(?=\S)/g, ' ');
+					if (manipulation.stripTrailing) line = line.trimEnd();
+					return line;
+				});
+			text = lines
+				.map((line, index) => line + newlines[index])
+				.filter(
+					(line, index) =>
+						!manipulation.collapseBlankLines ||
+						index === 0 ||
+						lines[index].trim() !== '' ||
+						lines[index - 1].trim() !== '',
+				)
+				.join('');
+			switch (manipulation.lineEndings ?? 'keep') {
+				case 'keep':
+					break;
+				case 'lf':
+					text = text.replace(/\r\n|\r|\n/g, '\n');
+					break;
+				case 'crlf':
+					text = text.replace(/\r\n|\r|\n/g, '\r\n');
+					break;
+				case 'cr':
+					text = text.replace(/\r\n|\r|\n/g, '\r');
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'keep, lf, crlf or cr are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		case 'tokenize':
+			switch (manipulation.tokenizeBy) {
+				case 'grapheme':
+				case 'word':
+				case 'sentence':
+					return tokenizeText(
+						text,
+						manipulation.tokenizeBy,
+						(manipulation.language as string | undefined) ?? '',
+						manipulation.dropWhitespace as boolean,
+						manipulation.dropPunctuation as boolean,
+						manipulation.includeOffsets as boolean,
+					);
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'grapheme, word or sentence are valid options',
+						{ itemIndex },
+					);
+			}
+		case 'statistics':
+			return textStatistics(
+				text,
+				manipulation.statisticsEncodeWith as string,
+				(manipulation.language as string | undefined) ?? '',
+				(manipulation.wordsPerMinute as number | undefined) ?? 200,
+			);
+		default:
+			throw new NodeOperationError(
+				this.getNode(),
+				'decodeEncode, replace, trim, pad, substring, repeat, split, extract, hash, lines, filterLines, template, reverse, truncate, chunk, slugify, transliterate, whitespace, tokenize or statistics are valid options',
+				{ itemIndex },
+			);
+	}
+	return text;
+}
+
+/**
+ * Writes a manipulated value to the JSON or to a binary property of an item.
+ *
+ * @param   {IExecuteFunctions} this       - The execute functions of the node.
+ * @param   {INodeParameters}   dataSource - The data source with the write options.
+ * @param   {ManipulatedValue}  value      - The value to write.
+ * @param   {IDataObject}       json       - The JSON of the item to write to.
+ * @param   {IBinaryKeyData}    binary     - The binary data of the item to write to.
+ * @param   {number}            itemIndex  - The index of the current item.
+ * @param   {string | string[]} path       - The JSON path to write to.
+ */
+async function writeValue(
+	this: IExecuteFunctions,
+	dataSource: INodeParameters,
+	value: ManipulatedValue,
+	json: IDataObject,
+	binary: IBinaryKeyData,
+	itemIndex: number,
+	path = dataSource.destinationKey as string | string[],
+): Promise<void> {
+	switch (dataSource.writeOperation) {
+		case 'toFile': {
+			const fileName = dataSource.slugifyFileName
+				? slugifyFileName((dataSource.fileName as string | null) ?? '')
+				: (dataSource.fileName as string);
+			const existing = binary[dataSource.destinationBinaryPropertyName as string] as
+				| IBinaryData
+				| undefined;
+			if (dataSource.fileWriteMode === 'append' && existing !== undefined) {
+				const data = Buffer.from(existing.data, BINARY_ENCODING);
+				binary[dataSource.destinationBinaryPropertyName as string] =
+					await this.helpers.prepareBinaryData(
+						Buffer.concat([
+							data,
+							// the existing data already has a BOM if it is needed
+							iconv.encode(
+								(data.length === 0
+									? ''
+									: unescapeEscapedCharacters((dataSource.fileSeparator as string | null) ?? '')) +
+									stringifyValue(value),
+								dataSource.fileEncodeWith as string,
+								{ addBOM: false },
+							),
+						]),
+						fileName || existing.fileName,
+						(dataSource.mimeType as string) || existing.mimeType,
+					);
+				break;
+			}
+			binary[dataSource.destinationBinaryPropertyName as string] =
+				await this.helpers.prepareBinaryData(
+					iconv.encode(stringifyValue(value), dataSource.fileEncodeWith as string, {
+						addBOM: dataSource.fileAddBOM as boolean,
+					}),
+					fileName,
+					dataSource.mimeType as string,
+				);
+			break;
+		}
+		case 'toJSON': {
+			value = mapStrings(value, (str) =>
+				convertValue.call(this, str, dataSource.valueType as string, itemIndex),
+			);
+			const existing = get(json, path) as ManipulatedValue | undefined;
+			const separator = (dataSource.jsonSeparator as string | null) ?? '';
+			switch (dataSource.jsonWriteMode) {
+				case 'set':
+					set(json, path, value);
+					break;
+				case 'appendToArray':
+					if (existing === undefined || existing === null) set(json, path, [value]);
+					else if (Array.isArray(existing)) existing.push(value);
+					else set(json, path, [existing, value]);
+					break;
+				case 'appendToString':
+					set(
+						json,
+						path,
+						existing === undefined || existing === null || existing === ''
+							? stringifyValue(value)
+							: stringifyValue(existing) + separator + stringifyValue(value),
+					);
+					break;
+				case 'prependToString':
+					set(
+						json,
+						path,
+						existing === undefined || existing === null || existing === ''
+							? stringifyValue(value)
+							: stringifyValue(value) + separator + stringifyValue(existing),
+					);
+					break;
+				case 'onlyIfEmpty':
+					if (existing === undefined || existing === null || existing === '') set(json, path, value);
+					break;
+				default:
+					throw new NodeOperationError(
+						this.getNode(),
+						'set, appendToArray, appendToString, prependToString or onlyIfEmpty are valid options',
+						{ itemIndex },
+					);
+			}
+			break;
+		}
+		default:
+			throw new NodeOperationError(this.getNode(), 'toFile or toJSON are valid options', {
+				itemIndex,
+			});
+	}
+}
+
+/** A node which allows you to manipulate string values. */
+export class TextManipulation implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'TextManipulation',
+		name: 'textManipulation',
+		icon: 'file:TextManipulation.svg',
+		group: ['transform'],
+		version: 1,
+		description: 'Allows you to manipulate string values.',
+		defaults: {
+			name: 'TextManipulation',
+		},
+		inputs: [NodeConnectionType.Main],
+		outputs: [NodeConnectionType.Main],
+		properties: [
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'options',
+				options: [
+					{
+						name: 'Each Item',
+						value: 'eachItem',
+						description: 'Output one item for each input item',
+					},
+					{
+						name: 'Aggregate',
+						value: 'aggregate',
+						description: 'Combine the texts of all input items into a single output item',
+					},
+					{
+						name: 'Fan Out',
+						value: 'fanOut',
+						description: 'Split the texts of each input item into multiple output items',
+					},
+				],
+				default: 'eachItem',
+			},
+			{
+				displayName: 'Keep Only Set',
+				name: 'keepOnlySet',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						mode: ['eachItem', 'fanOut'],
+					},
+				},
+				default: false,
+				description:
+					'Whether only the values set on this node should be kept and all others removed',
+			},
+			{
+				displayName: 'Fan Out By',
+				name: 'fanOutBy',
+				type: 'options',
+				displayOptions: {
+					show: {
+						mode: ['fanOut'],
+					},
+				},
+				options: [
+					{
+						name: 'Line',
+						value: 'lines',
+						description: 'Output one item for each line',
+					},
+					{
+						name: 'Regex Match',
+						value: 'regexMatch',
+						description: 'Output one item for each match of a regex',
+					},
+					{
+						name: 'Separator',
+						value: 'separator',
+						description: 'Output one item for each part between the separators',
+					},
+					{
+						name: 'Size',
+						value: 'size',
+						description: 'Output one item for each part with a fixed number of characters',
+					},
+				],
+				default: 'lines',
+				description:
+					'How the texts are split into items. Arrays (for example from the split action) are always split into their elements.',
+			},
+			{
+				displayName: 'Separator',
+				name: 'fanOutSeparator',
+				type: 'string',
+				displayOptions: {
+					show: {
+						mode: ['fanOut'],
+						fanOutBy: ['separator'],
+					},
+				},
+				default: ',',
+				description:
+					'The separator between the parts. Escape characters can be used (\\n, \\r, \\t, ...).',
+			},
+			{
+				displayName: 'Regex',
+				name: 'fanOutRegex',
+				type: 'string',
+				displayOptions: {
+					show: {
+						mode: ['fanOut'],
+						fanOutBy: ['regexMatch'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/^\\d+;.*$/gm',
+				description: 'The regex whose matches are the parts. Flags can be set with /pattern/flags.',
+			},
+			{
+				displayName: 'Size',
+				name: 'fanOutSize',
+				type: 'number',
+				displayOptions: {
+					show: {
+						mode: ['fanOut'],
+						fanOutBy: ['size'],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1000,
+				description: 'The number of characters of each part',
+			},
+			{
+				displayName: 'Drop Empty',
+				name: 'fanOutDropEmpty',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						mode: ['fanOut'],
+					},
+				},
+				default: true,
+				description: 'Whether empty parts should be dropped instead of output as items',
+			},
+			{
+				displayName: 'Aggregate Options',
+				name: 'aggregateOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						mode: ['aggregate'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Footer',
+						name: 'footer',
+						type: 'string',
+						default: '',
+						description:
+							'The text which is appended after the texts of all items. Escape characters can be used (\\n, \\r, \\t, ...).',
+					},
+					{
+						displayName: 'Header',
+						name: 'header',
+						type: 'string',
+						default: '',
+						description:
+							'The text which is prepended before the texts of all items. Escape characters can be used (\\n, \\r, \\t, ...).',
+					},
+					{
+						displayName: 'Item Template',
+						name: 'itemTemplate',
+						type: 'string',
+						default: '',
+						placeholder: '{{index}}: {{text}}',
+						// eslint-disable-next-line n8n-nodes-base/node-param-description-miscased-json
+						description:
+							'The template which is rendered for each item. Placeholders like {{text}}, {{index}} (starting at 0) and {{json.name}} can be used with the filters of the template action. Leave empty to use the text as it is.',
+					},
+					{
+						displayName: 'Separator',
+						name: 'separator',
+						type: 'string',
+						default: '\\n',
+						description:
+							'The separator which is inserted between the texts of the items. Escape characters can be used (\\n, \\r, \\t, ...).',
+					},
+				],
+			},
+			{
+				displayName: 'Texts with Manipulations',
+				name: 'textsWithManipulations',
+				placeholder: 'Add Texts Manipulations',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				description: 'The texts to manipulate',
+				default: {},
+				options: [
+					{
+						name: 'textsWithManipulationsValues',
+						displayName: 'Texts with Manipulations',
+						values: [
+							{
+								displayName: 'Data Sources',
+								name: 'dataSources',
+								placeholder: 'Add Data Source',
+								type: 'fixedCollection',
+								typeOptions: {
+									multipleValues: true,
+									sortable: true,
+								},
+								description: 'The data sources for the manipulations',
+								default: {},
+								options: [
+									{
+										displayName: 'Data Source',
+										name: 'dataSource',
+										values: [
+											{
+												displayName: 'Read Operation',
+												name: 'readOperation',
+												type: 'options',
+												options: [
+													{
+														name: 'Text',
+														value: 'fromText',
+														description: 'Declare text directly',
+													},
+													{
+														name: 'Read From File',
+														value: 'fromFile',
+														description: 'Read text from file',
+													},
+													{
+														name: 'Read From JSON',
+														value: 'fromJSON',
+														description: 'Read text from JSON',
+													},
+												],
+												default: 'fromText',
+											},
+											{
+												displayName: 'Binary Property',
+												name: 'binaryPropertyName',
+												required: true,
+												displayOptions: {
+													show: {
+														readOperation: ['fromFile'],
+													},
+												},
+												type: 'string',
+												default: 'data',
+												description:
+													'Name of the binary property from which the binary data is to be read',
+											},
+											{
+												displayName: 'Decode With',
+												name: 'fileDecodeWith',
+												displayOptions: {
+													show: {
+														readOperation: ['fromFile'],
+													},
+												},
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+											},
+											{
+												displayName: 'Strip BOM',
+												name: 'fileStripBOM',
+												displayOptions: {
+													show: {
+														readOperation: ['fromFile'],
+														fileDecodeWith: bomAware,
+													},
+												},
+												type: 'boolean',
+												default: true,
+											},
+											{
+												displayName: 'Get Manipulated Data',
+												name: 'getManipulatedData',
+												required: true,
+												displayOptions: {
+													show: {
+														readOperation: ['fromFile', 'fromJSON'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description:
+													'Whether to use the newly manipulated data instead of the raw data. If none are available, raw data is used.',
+											},
+											{
+												displayName: 'Source Key',
+												name: 'sourceKey',
+												required: true,
+												displayOptions: {
+													show: {
+														readOperation: ['fromJSON'],
+													},
+												},
+												type: 'string',
+												default: 'data',
+												description:
+													'The name of the JSON key to get data from.It is also possible to define deep keys by using dot-notation like for example:"level1.level2.currentKey". Wildcards can be used to get multiple values, * matches one level and ** any number of levels (e.g. "items[*].description" or "**.title").',
+											},
+											{
+												displayName: 'Skip Non-String',
+												name: 'skipNonString',
+												required: true,
+												displayOptions: {
+													show: {
+														readOperation: ['fromJSON'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description:
+													'Whether to skip non-string data. If they are not skipped, they are automatically converted to a string.',
+											},
+											{
+												displayName: 'Walk Objects and Arrays',
+												name: 'walkObjects',
+												displayOptions: {
+													show: {
+														readOperation: ['fromJSON'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description:
+													'Whether to manipulate every string in objects and arrays and keep their structure. Otherwise they are handled like other non-string data.',
+											},
+											{
+												displayName: 'Manipulate Keys',
+												name: 'manipulateKeys',
+												displayOptions: {
+													show: {
+														readOperation: ['fromJSON'],
+														walkObjects: [true],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether to also manipulate the keys of the objects',
+											},
+											{
+												displayName: 'Text',
+												name: 'text',
+												required: true,
+												displayOptions: {
+													show: {
+														readOperation: ['fromText'],
+													},
+												},
+												type: 'string',
+												default: '',
+												description: 'Plain text',
+											},
+											{
+												displayName: 'Write Operation',
+												name: 'writeOperation',
+												type: 'options',
+												options: [
+													{
+														name: 'Write to File',
+														value: 'toFile',
+														description: 'Write the manipulated text to a file',
+													},
+													{
+														name: 'Write to JSON',
+														value: 'toJSON',
+														description: 'Write the manipulated text to a JSON key',
+													},
+												],
+												default: 'toJSON',
+											},
+											{
+												displayName: 'Destination Binary Property',
+												name: 'destinationBinaryPropertyName',
+												required: true,
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+													},
+												},
+												type: 'string',
+												default: 'data',
+												description:
+													'Name of the binary property where the binary data should be written',
+											},
+											{
+												displayName: 'Write Mode',
+												name: 'fileWriteMode',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Replace',
+														value: 'replace',
+														description: 'Replace the binary data with a new file',
+													},
+													{
+														name: 'Append',
+														value: 'append',
+														description:
+															'Add the text to the end of the existing binary data. If there is none, a new file is created.',
+													},
+												],
+												default: 'replace',
+											},
+											{
+												displayName: 'Separator',
+												name: 'fileSeparator',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+														fileWriteMode: ['append'],
+													},
+												},
+												type: 'string',
+												default: '\\n',
+												description:
+													'The string between the existing binary data and the text. Escape characters can be used (\\n, \\r, \\t, ...).',
+											},
+											{
+												displayName: 'Encode With',
+												name: 'fileEncodeWith',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+													},
+												},
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+											},
+											{
+												displayName: 'Add BOM',
+												name: 'fileAddBOM',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+														fileEncodeWith: bomAware,
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'File Name',
+												name: 'fileName',
+												type: 'string',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+													},
+												},
+												default: '',
+												placeholder: 'example.txt',
+												description: 'The file name to set. When appending, an empty file name keeps the existing one.',
+											},
+											{
+												displayName: 'Slugify File Name',
+												name: 'slugifyFileName',
+												type: 'boolean',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+													},
+												},
+												default: false,
+												description:
+													'Whether the file name should be transliterated to a safe file name with only ASCII letters, digits and dashes',
+											},
+											{
+												displayName: 'Mime Type',
+												name: 'mimeType',
+												type: 'string',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+														fileWriteMode: ['replace'],
+													},
+												},
 												default: 'text/plain',
 												placeholder: 'text/plain',
 												description:
-													'The mime-type to set. By default will the mime-type for plan text be set.',
+													'The mime-type to set. By default will the mime-type for plan text be set.',
+											},
+											{
+												displayName: 'Mime Type',
+												name: 'mimeType',
+												type: 'string',
+												displayOptions: {
+													show: {
+														writeOperation: ['toFile'],
+														fileWriteMode: ['append'],
+													},
+												},
+												default: '',
+												placeholder: 'text/plain',
+												description:
+													'The mime-type to set. By default will the mime-type of the existing binary data be kept.',
+											},
+											{
+												displayName: 'Destination Key',
+												name: 'destinationKey',
+												displayOptions: {
+													show: {
+														writeOperation: ['toJSON'],
+													},
+												},
+												type: 'string',
+												default: 'data',
+												required: true,
+												placeholder: 'data',
+												description:
+													'The name the JSON key to copy data to. It is also possibleto define deep keys by using dot-notation like for example:"level1.level2.newKey". If the source key has wildcards, the wildcards of the destination key are replaced by the matched keys (e.g. "items[*].cleanDescription"), without wildcards an array of all values is written.',
+											},
+											{
+												displayName: 'Write Mode',
+												name: 'jsonWriteMode',
+												displayOptions: {
+													show: {
+														writeOperation: ['toJSON'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Append to Array',
+														value: 'appendToArray',
+														description: 'Add the value to the end of the array of the key',
+													},
+													{
+														name: 'Append to String',
+														value: 'appendToString',
+														description: 'Add the value to the end of the string of the key',
+													},
+													{
+														name: 'Only If Empty',
+														value: 'onlyIfEmpty',
+														description: 'Set the value only if the key does not exist, is null or an empty string',
+													},
+													{
+														name: 'Prepend to String',
+														value: 'prependToString',
+														description: 'Add the value to the beginning of the string of the key',
+													},
+													{
+														name: 'Set',
+														value: 'set',
+														description: 'Overwrite the value of the key',
+													},
+												],
+												default: 'set',
+											},
+											{
+												displayName: 'Separator',
+												name: 'jsonSeparator',
+												displayOptions: {
+													show: {
+														writeOperation: ['toJSON'],
+														jsonWriteMode: ['appendToString', 'prependToString'],
+													},
+												},
+												type: 'string',
+												default: '',
+												description: 'The string between the existing string and the value',
+											},
+											{
+												displayName: 'Value Type',
+												name: 'valueType',
+												displayOptions: {
+													show: {
+														writeOperation: ['toJSON'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Boolean',
+														value: 'boolean',
+														description: 'Convert the value to a boolean (true, false, 1, 0, yes, no, on, off)',
+													},
+													{
+														name: 'JSON',
+														value: 'json',
+														description: 'Parse the value as JSON',
+													},
+													{
+														name: 'Keep',
+														value: 'keep',
+														description: 'Keep the value as string',
+													},
+													{
+														name: 'Null If Empty',
+														value: 'nullIfEmpty',
+														description: 'Convert an empty string to null',
+													},
+													{
+														name: 'Number',
+														value: 'number',
+														description: 'Convert the value to a number',
+													},
+												],
+												default: 'keep',
+												description: 'The type to convert the strings to. An error is thrown if the conversion fails.',
+											},
+										],
+									},
+								],
+							},
+							{
+								displayName: 'Manipulations',
+								name: 'manipulations',
+								placeholder: 'Add Manipulation',
+								type: 'fixedCollection',
+								typeOptions: {
+									multipleValues: true,
+									sortable: true,
+								},
+								description: 'The manipulations for the data sources',
+								default: {},
+								options: [
+									{
+										name: 'manipulation',
+										displayName: 'Manipulation',
+										values: [
+											{
+												displayName: 'Action',
+												name: 'action',
+												type: 'options',
+												options: [
+													{
+														name: 'Chunk',
+														value: 'chunk',
+														description: 'Split the string into overlapping chunks with their offsets',
+														action: 'Split the string into overlapping chunks with their offsets',
+													},
+													{
+														name: 'Concat',
+														value: 'concat',
+														description: 'Add string to the beginning or/and end',
+														action: 'Add string to the beginning or and end',
+													},
+													{
+														name: 'Decode/Encode',
+														value: 'decodeEncode',
+														description: 'Decode and Encode string',
+														action: 'Decode and encode string',
+													},
+													{
+														name: 'Decode/Encode Entities',
+														value: 'decodeEncodeEntities',
+														description: 'Decode and Encode HTML & XML entities',
+														action: 'Decode and encode html xml entities',
+													},
+													{
+														name: 'Extract',
+														value: 'extract',
+														description: 'Extract matches of a regex',
+														action: 'Extract matches of a regex',
+													},
+													{
+														name: 'Filter Lines',
+														value: 'filterLines',
+														description: 'Keep or remove lines by a match, position or range',
+														action: 'Keep or remove lines by a match position or range',
+													},
+													{
+														name: 'Hash',
+														value: 'hash',
+														description: 'Create a hash or HMAC of the string',
+														action: 'Create a hash or HMAC of the string',
+													},
+													{
+														name: 'Letter Case',
+														value: 'letterCase',
+														description: 'Upper and lowercase letters in a string',
+														action: 'Upper and lowercase letters in a string',
+													},
+													{
+														name: 'Lines',
+														value: 'lines',
+														description: 'Sort, deduplicate, reverse or shuffle the lines',
+														action: 'Sort deduplicate reverse or shuffle the lines',
+													},
+													{
+														name: 'Normalize',
+														value: 'normalize',
+														description: 'Normalize a string',
+														action: 'Normalize a string',
+													},
+													{
+														name: 'Pad',
+														value: 'pad',
+														description: 'Pad the string at the beginning or end',
+														action: 'Pad the string at the beginning or end',
+													},
+													{
+														name: 'Repeat',
+														value: 'repeat',
+														description: 'Repeat the string',
+														action: 'Repeat the string',
+													},
+													{
+														name: 'Replace',
+														value: 'replace',
+														description: 'Replace a substring or regex',
+														action: 'Replace a substring or regex',
+													},
+													{
+														name: 'Reverse',
+														value: 'reverse',
+														description: 'Reverse the characters of the string',
+														action: 'Reverse the characters of the string',
+													},
+													{
+														name: 'Slugify',
+														value: 'slugify',
+														description: 'Convert the string into a slug for links and file names',
+														action: 'Convert the string into a slug for links and file names',
+													},
+													{
+														name: 'Split',
+														value: 'split',
+														description: 'Split the string into an array of parts',
+														action: 'Split the string into an array of parts',
+													},
+													{
+														name: 'Statistics',
+														value: 'statistics',
+														description: 'Count characters, bytes, words, sentences, lines and paragraphs',
+														action: 'Count characters bytes words sentences lines and paragraphs',
+													},
+													{
+														name: 'Substring',
+														value: 'substring',
+														description: 'Get a substring',
+														action: 'Get a substring',
+													},
+													{
+														name: 'Template',
+														value: 'template',
+														description: 'Insert the string and JSON values into a template',
+														action: 'Insert the string and json values into a template',
+													},
+													{
+														name: 'Tokenize',
+														value: 'tokenize',
+														description: 'Split the string into an array of words, sentences or graphemes',
+														action: 'Split the string into an array of words sentences or graphemes',
+													},
+													{
+														name: 'Transliterate',
+														value: 'transliterate',
+														description: 'Convert the string into ASCII by transliterating letters and removing diacritics',
+														action: 'Convert the string into ASCII by transliterating letters and removing diacritics',
+													},
+													{
+														name: 'Trim',
+														value: 'trim',
+														description: 'Removes characters from the beginning or/and end',
+														action: 'Removes characters from the beginning or and end',
+													},
+													{
+														name: 'Truncate',
+														value: 'truncate',
+														description: 'Shorten the string to a maximum length with an ellipsis',
+														action: 'Shorten the string to a maximum length with an ellipsis',
+													},
+													{
+														name: 'Whitespace',
+														value: 'whitespace',
+														description: 'Normalize spaces, tabs, blank lines and line endings',
+														action: 'Normalize spaces tabs blank lines and line endings',
+													},
+												],
+												default: 'letterCase',
+											},
+											{
+												displayName: 'Normalize Form',
+												name: 'normalizeForm',
+												displayOptions: {
+													show: {
+														action: ['normalize'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'NFC',
+														value: 'nfc',
+														description:
+															'Canonical Decomposition, followed by Canonical Composition',
+													},
+													{
+														name: 'NFD',
+														value: 'nfd',
+														description: 'Canonical Decomposition',
+													},
+													{
+														name: 'NFKC',
+														value: 'nfkc',
+														description:
+															'Compatibility Decomposition, followed by Canonical Composition',
+													},
+													{
+														name: 'NFKD',
+														value: 'nfkd',
+														description: 'Compatibility Decomposition',
+													},
+												],
+												default: 'nfc',
+											},
+											{
+												displayName: 'Case Type',
+												name: 'caseType',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Camel Case',
+														value: 'camelCase',
+														description: 'Converts string to camel case',
+													},
+													{
+														name: 'Capitalize',
+														value: 'capitalize',
+														description: 'Capitalize text',
+													},
+													{
+														name: 'Constant Case',
+														value: 'constantCase',
+														description: 'Converts string to constant case (CONSTANT_CASE)',
+													},
+													{
+														name: 'Dot Case',
+														value: 'dotCase',
+														description: 'Converts string to dot case (dot.case)',
+													},
+													{
+														name: 'Kebab Case',
+														value: 'kebabCase',
+														description: 'Converts string to kebab case',
+													},
+													{
+														name: 'Locale Lower Case',
+														value: 'localeLowerCase',
+														description: 'Locale lower case all characters',
+													},
+													{
+														name: 'Locale Upper Case',
+														value: 'localeUpperCase',
+														description: 'Locale upper case all characters',
+													},
+													{
+														name: 'Lower Case',
+														value: 'lowerCase',
+														description: 'Lower case all characters',
+													},
+													{
+														name: 'Pascal Case',
+														value: 'pascalCase',
+														description: 'Converts string to pascal case (PascalCase)',
+													},
+													{
+														name: 'Path Case',
+														value: 'pathCase',
+														description: 'Converts string to path case (path/case)',
+													},
+													{
+														name: 'Sentence Case',
+														value: 'sentenceCase',
+														description: 'Converts string to sentence case',
+													},
+													{
+														name: 'Snake Case',
+														value: 'snakeCase',
+														description: 'Converts string to snake case',
+													},
+													{
+														name: 'Start Case',
+														value: 'startCase',
+														description: 'Converts string to start case',
+													},
+													{
+														name: 'Swap Case',
+														value: 'swapCase',
+														description: 'Swaps the case of all characters',
+													},
+													{
+														name: 'Titlecase',
+														value: 'titlecase',
+														description: 'Titlecase text',
+													},
+													{
+														name: 'Train Case',
+														value: 'trainCase',
+														description: 'Converts string to train case (Train-Case)',
+													},
+													{
+														name: 'Upper Case',
+														value: 'upperCase',
+														description: 'Upper case all characters',
+													},
+												],
+												default: 'lowerCase',
+											},
+											{
+												displayName: 'Language',
+												name: 'language',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+														caseType: ['localeLowerCase', 'localeUpperCase'],
+													},
+												},
+												type: 'string',
+												default: 'en',
+												required: true,
+												description: 'Change the language of the localbase method',
+											},
+											{
+												displayName: 'Style',
+												name: 'titleCaseStyle',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+														caseType: ['titlecase'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'AP',
+														value: 'ap',
+														description:
+															'Capitalize all words except articles and coordinating conjunctions and prepositions with up to three letters',
+													},
+													{
+														name: 'APA',
+														value: 'apa',
+														description:
+															'Capitalize all words except articles and all conjunctions and prepositions with up to three letters',
+													},
+													{
+														name: 'Chicago',
+														value: 'chicago',
+														description:
+															'Capitalize all words except articles, coordinating conjunctions and prepositions',
+													},
+													{
+														name: 'First Word Only',
+														value: 'firstWord',
+														description: 'Capitalize only the first word and the first word after a colon',
+													},
+													{
+														name: 'Simple',
+														value: 'simple',
+														description: 'Capitalize the first letter of each word and lower case the others',
+													},
+												],
+												default: 'simple',
+											},
+											{
+												displayName: 'Language',
+												name: 'language',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+														caseType: ['titlecase'],
+														titleCaseStyle: ['ap', 'apa', 'chicago'],
+													},
+												},
+												type: 'string',
+												default: 'en',
+												required: true,
+												description:
+													'The language of the small words which are not capitalized (de, en, es, fr, it, nl or pt)',
+											},
+											{
+												displayName: 'Preserve Acronyms',
+												name: 'preserveAcronyms',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+														caseType: [
+															'camelCase',
+															'dotCase',
+															'kebabCase',
+															'pascalCase',
+															'pathCase',
+															'sentenceCase',
+															'snakeCase',
+															'startCase',
+															'trainCase',
+														],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether words in upper case (like HTTP in HTTPServer) should be kept as they are',
+											},
+											{
+												displayName: 'Word Pattern',
+												name: 'wordPattern',
+												displayOptions: {
+													show: {
+														action: ['letterCase'],
+														caseType: [
+															'camelCase',
+															'constantCase',
+															'dotCase',
+															'kebabCase',
+															'pascalCase',
+															'pathCase',
+															'sentenceCase',
+															'snakeCase',
+															'startCase',
+															'trainCase',
+														],
+													},
+												},
+												type: 'string',
+												default: '',
+												placeholder: '/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\\d+/g',
+												description:
+													'A regex which matches the words. Leave empty to split the words at spaces, punctuation and changes of the letter case.',
+											},
+											{
+												displayName: 'Before',
+												name: 'before',
+												displayOptions: {
+													show: {
+														action: ['concat'],
+													},
+												},
+												type: 'string',
+												default: '',
+												description: 'String to be added at the beginning',
+											},
+											{
+												displayName: 'After',
+												name: 'after',
+												displayOptions: {
+													show: {
+														action: ['concat'],
+													},
+												},
+												type: 'string',
+												default: '',
+												description: 'String to be added at the end',
+											},
+											{
+												displayName: 'Decode Binary-to-Text With',
+												name: 'decodeBinaryToTextWith',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+													},
+												},
+												type: 'options',
+											options: [
+												{
+													name: 'Base32',
+													value: 'base32',
+												},
+												{
+													name: 'Base64',
+													value: 'base64',
+												},
+												{
+													name: 'Base64URL',
+													value: 'base64url',
+												},
+												{
+													name: 'Hex',
+													value: 'hex',
+												},
+												{
+													name: 'Nothing',
+													value: 'nothing',
+												},
+												{
+													name: 'Quoted-Printable',
+													value: 'quotedPrintable',
+												},
+												{
+													name: 'UUEncode',
+													value: 'uuencode',
+												},
+											],
+											default: 'nothing',
+												description: 'Decode the string to bytes before decoding it with the charset',
+											},
+											{
+												displayName: 'Decode With',
+												name: 'decodeWith',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+													},
+												},
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+											},
+											{
+												displayName: 'Decode With',
+												name: 'decodeWithEntities',
+												displayOptions: {
+													show: {
+														action: ['decodeEncodeEntities'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Base32',
+														value: 'base32',
+													},
+													{
+														name: 'Base64',
+														value: 'base64',
+													},
+													{
+														name: 'Base64URL',
+														value: 'base64url',
+													},
+													{
+														name: 'Hex',
+														value: 'hex',
+													},
+													{
+														name: 'Html',
+														value: 'html',
+													},
+													{
+														name: 'Nothing',
+														value: 'nothing',
+													},
+													{
+														name: 'Quoted-Printable',
+														value: 'quotedPrintable',
+													},
+													{
+														name: 'Url',
+														value: 'url',
+													},
+													{
+														name: 'Url Component',
+														value: 'urlComponent',
+													},
+													{
+														name: 'UUEncode',
+														value: 'uuencode',
+													},
+													{
+														name: 'Xml',
+														value: 'xml',
+													},
+												],
+												default: 'nothing',
+											},
+											{
+												displayName: 'Decode Mode',
+												name: 'entitiesDecodeMode',
+												displayOptions: {
+													show: {
+														action: ['decodeEncodeEntities'],
+														decodeWithEntities: ['xml', 'html'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Legacy',
+														value: 'legacy',
+													},
+													{
+														name: 'Strict',
+														value: 'strict',
+													},
+												],
+												default: 'legacy',
+											},
+											{
+												displayName: 'Strip BOM',
+												name: 'stripBOM',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+														decodeWith: bomAware,
+													},
+												},
+												type: 'boolean',
+												default: true,
+											},
+											{
+												displayName: 'Encode With',
+												name: 'encodeWith',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+													},
+												},
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+											},
+											{
+												displayName: 'Encode With',
+												name: 'encodeWithEntities',
+												displayOptions: {
+													show: {
+														action: ['decodeEncodeEntities'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Base32',
+														value: 'base32',
+													},
+													{
+														name: 'Base64',
+														value: 'base64',
+													},
+													{
+														name: 'Base64URL',
+														value: 'base64url',
+													},
+													{
+														name: 'Hex',
+														value: 'hex',
+													},
+													{
+														name: 'Html',
+														value: 'html',
+													},
+													{
+														name: 'Nothing',
+														value: 'nothing',
+													},
+													{
+														name: 'Quoted-Printable',
+														value: 'quotedPrintable',
+													},
+													{
+														name: 'Url',
+														value: 'url',
+													},
+													{
+														name: 'Url Component',
+														value: 'urlComponent',
+													},
+													{
+														name: 'UUEncode',
+														value: 'uuencode',
+													},
+													{
+														name: 'Xml',
+														value: 'xml',
+													},
+												],
+												default: 'nothing',
+											},
+											{
+												displayName: 'Encode Mode',
+												name: 'entitiesEncodeMode',
+												displayOptions: {
+													show: {
+														action: ['decodeEncodeEntities'],
+														encodeWithEntities: ['xml', 'html'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Extensive',
+														value: 'extensive',
+													},
+													{
+														name: 'UTF8',
+														value: 'utf8',
+													},
+													{
+														name: 'NonAscii',
+														value: 'nonAscii',
+													},
+												],
+												default: 'extensive',
+											},
+											{
+												displayName: 'Encode Binary-to-Text With',
+												name: 'encodeBinaryToTextWith',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+													},
+												},
+												type: 'options',
+											options: [
+												{
+													name: 'Base32',
+													value: 'base32',
+												},
+												{
+													name: 'Base64',
+													value: 'base64',
+												},
+												{
+													name: 'Base64URL',
+													value: 'base64url',
+												},
+												{
+													name: 'Hex',
+													value: 'hex',
+												},
+												{
+													name: 'Nothing',
+													value: 'nothing',
+												},
+												{
+													name: 'Quoted-Printable',
+													value: 'quotedPrintable',
+												},
+												{
+													name: 'UUEncode',
+													value: 'uuencode',
+												},
+											],
+											default: 'nothing',
+												description: 'Encode the bytes of the charset to a string',
+											},
+											{
+												displayName: 'Add BOM',
+												name: 'addBOM',
+												displayOptions: {
+													show: {
+														action: ['decodeEncode'],
+														encodeWith: bomAware,
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Replace Mode',
+												name: 'replaceMode',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Substring',
+														value: 'substring',
+														description: 'Replace a substring with a value',
+													},
+													{
+														name: 'Extended Substring',
+														value: 'extendedSubstring',
+														description:
+															'Replace a substring including escape characters with a value',
+													},
+													{
+														name: 'Regex',
+														value: 'regex',
+														description: 'Replace regex with a pattern',
+													},
+													{
+														name: 'Predefined Rule',
+														value: 'predefinedRule',
+														description: 'Use a predefined rule to replace',
+													},
+												],
+												default: 'substring',
+											},
+											{
+												displayName: 'Regex',
+												name: 'regex',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['regex'],
+													},
+												},
+												type: 'string',
+												default: '',
+												required: true,
+												placeholder: '.*',
+												description: 'Regular expression',
+											},
+											{
+												displayName: 'Pattern',
+												name: 'pattern',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['regex'],
+													},
+												},
+												type: 'string',
+												default: '',
+												placeholder: '$&',
+												// eslint-disable-next-line n8n-nodes-base/node-param-description-unencoded-angle-brackets
+												description:
+													'<table><tr><th>Pattern</th><th>Inserts</th></tr><tr><td>$$</td><td>Inserts a "$".</td></tr><tr><td>$&</td><td>Inserts the matched substring.</td></tr><tr><td>$`</td><td>Inserts the portion of the string that precedes the matched substring.</td></tr><tr><td>$\'</td><td>Inserts the portion of the string that follows the matched substring.</td></tr><tr><td>$n</td><td>Where n is a positive integer less than 100, inserts the nth parenthesized submatch string, provided the first argument was a RegExp object. Note that this is 1-indexed. If a group n is not present (e.g., if group is 3), it will be replaced as a literal (e.g., $3).</td></tr><tr><td>$<Name></td><td>Where Name is a capturing group name. If the group is not in the match, or not in the regular expression, or if a string was passed as the first argument to replace instead of a regular expression, this resolves to a literal (e.g., $<Name>).</td></tr></table>',
+											},
+											{
+												displayName: 'Predefined Rule',
+												name: 'predefinedRule',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Tags',
+														value: 'tags',
+														description: 'Replace all tags',
+													},
+													{
+														name: 'Character Groups',
+														value: 'characterGroups',
+														description: 'Replace all defined character groups',
+													},
+													{
+														name: 'Invisible Characters',
+														value: 'invisibleCharacters',
+														description:
+															'Replace zero width, control and bidirectional characters, soft hyphens and byte order marks',
+													},
+												],
+												default: 'tags',
+											},
+											{
+												displayName: 'Only Recognised HTML',
+												name: 'onlyRecognisedHTML',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['tags'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Mode',
+												name: 'characterGroupsMode',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Replace',
+														value: 'replace',
+														description: 'Replace the characters of the groups with the value',
+													},
+													{
+														name: 'Keep Only',
+														value: 'keepOnly',
+														description:
+															'Keep only the characters of the groups and replace each run of other characters with the value',
+													},
+												],
+												default: 'replace',
+											},
+											{
+												displayName: 'Newline',
+												name: 'newline',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Newline Min',
+												name: 'newlineMin',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														newline: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Newline Max',
+												name: 'newlineMax',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														newline: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Number',
+												name: 'number',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Number Min',
+												name: 'numberMin',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														number: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Number Max',
+												name: 'numberMax',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														number: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Alpha',
+												name: 'alpha',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Alpha Min',
+												name: 'alphaMin',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														alpha: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Alpha Max',
+												name: 'alphaMax',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														alpha: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Whitespace',
+												name: 'whitespace',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+											},
+											{
+												displayName: 'Whitespace Min',
+												name: 'whitespaceMin',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														whitespace: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Whitespace Max',
+												name: 'whitespaceMax',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+														whitespace: [true],
+													},
+												},
+												type: 'number',
+												default: 1,
+											},
+											{
+												displayName: 'Unicode Groups',
+												name: 'unicodeGroups',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'multiOptions',
+												options: [
+													{
+														name: 'Emoji',
+														value: 'emoji',
+														description: 'Emojis including flags, skin tones and joined emojis',
+													},
+													{
+														name: 'Letters',
+														value: 'letters',
+														description: 'Letters of all scripts (\\p{L})',
+													},
+													{
+														name: 'Marks',
+														value: 'marks',
+														description: 'Combining marks like accents (\\p{M})',
+													},
+													{
+														name: 'Numbers',
+														value: 'numbers',
+														description: 'Digits and other numbers of all scripts (\\p{N})',
+													},
+													{
+														name: 'Punctuation',
+														value: 'punctuation',
+														description: 'Punctuation of all scripts (\\p{P})',
+													},
+													{
+														name: 'Separators',
+														value: 'separators',
+														description: 'Spaces and line and paragraph separators (\\p{Z})',
+													},
+													{
+														name: 'Symbols',
+														value: 'symbols',
+														description: 'Math, currency and other symbols (\\p{S})',
+													},
+												],
+												default: [],
+												description: 'The unicode groups whose characters are matched one by one',
+											},
+											{
+												displayName: 'Scripts',
+												name: 'scripts',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'multiOptions',
+												options: [
+													{
+														name: 'Arabic',
+														value: 'Arabic',
+													},
+													{
+														name: 'Cyrillic',
+														value: 'Cyrillic',
+													},
+													{
+														name: 'Devanagari',
+														value: 'Devanagari',
+													},
+													{
+														name: 'Greek',
+														value: 'Greek',
+													},
+													{
+														name: 'Han',
+														value: 'Han',
+													},
+													{
+														name: 'Hangul',
+														value: 'Hangul',
+													},
+													{
+														name: 'Hebrew',
+														value: 'Hebrew',
+													},
+													{
+														name: 'Hiragana',
+														value: 'Hiragana',
+													},
+													{
+														name: 'Katakana',
+														value: 'Katakana',
+													},
+													{
+														name: 'Latin',
+														value: 'Latin',
+													},
+													{
+														name: 'Thai',
+														value: 'Thai',
+													},
+												],
+												default: [],
+												description: 'The scripts whose characters are matched one by one',
+											},
+											{
+												displayName: 'Custom Class',
+												name: 'customClass',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['characterGroups'],
+													},
+												},
+												type: 'string',
+												default: '',
+												placeholder: '_\\-\\p{Sc}',
+												description:
+													'The content of a custom character class (without the brackets) whose characters are matched one by one. Unicode properties like \\p{Sc} can be used.',
+											},
+											{
+												displayName: 'Zero Width',
+												name: 'zeroWidth',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether zero width spaces, non-joiners (except between letters), joiners (except between emojis or letters) and word joiners should be replaced',
+											},
+											{
+												displayName: 'Soft Hyphen',
+												name: 'softHyphen',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether soft hyphens should be replaced',
+											},
+											{
+												displayName: 'Byte Order Mark',
+												name: 'byteOrderMark',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether byte order marks (also in the middle of the text) should be replaced',
+											},
+											{
+												displayName: 'Control Characters',
+												name: 'controlCharacters',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether C0 and C1 control characters except tabs and line breaks should be replaced',
+											},
+											{
+												displayName: 'Bidirectional Marks',
+												name: 'bidiMarks',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether bidirectional marks, embeddings, overrides and isolates should be replaced',
+											},
+											{
+												displayName: 'Reveal',
+												name: 'revealInvisible',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['predefinedRule'],
+														predefinedRule: ['invisibleCharacters'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether the characters should be replaced with a visible placeholder like &lt;U+200B&gt; instead of the value',
+											},
+											{
+												displayName: 'Substring',
+												name: 'substring',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['substring', 'extendedSubstring'],
+													},
+												},
+												type: 'string',
+												default: '',
+												required: true,
+												placeholder: 'sub',
+												description: 'The substring to be replaced',
+											},
+											{
+												displayName: 'Value',
+												name: 'value',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['substring', 'extendedSubstring', 'predefinedRule'],
+													},
+													hide: {
+														revealInvisible: [true],
+													},
+												},
+												type: 'string',
+												default: '',
+												placeholder: '',
+												description: 'The value that should replace the substring',
+											},
+											{
+												displayName: 'Replace All',
+												name: 'replaceAll',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+														replaceMode: ['substring', 'extendedSubstring'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												placeholder: '',
+												description:
+													'Whether all substrings should be replaced (not only the first)',
+											},
+											{
+												displayName: 'Extended',
+												name: 'extended',
+												displayOptions: {
+													show: {
+														action: ['replace'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												placeholder: '',
+												description:
+													'Whether all escape characters should be used for replacement (\\n, \\r, \\t, ...)',
+											},
+											{
+												displayName: 'Trim',
+												name: 'trim',
+												displayOptions: {
+													show: {
+														action: ['trim'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Trim Both',
+														value: 'trimBoth',
+														description: 'Removes characters from the beginning and end',
+													},
+													{
+														name: 'Trim Start',
+														value: 'trimStart',
+														description: 'Removes characters from the beginning',
+													},
+													{
+														name: 'Trim End',
+														value: 'trimEnd',
+														description: 'Removes characters from the end',
+													},
+												],
+												default: 'trimBoth',
+											},
+											{
+												displayName: 'Trim String',
+												name: 'trimString',
+												displayOptions: {
+													show: {
+														action: ['trim'],
+													},
+												},
+												type: 'string',
+												default: ' ',
+												required: true,
+												description: 'The string to trim',
+											},
+											{
+												displayName: 'Trim String as an Unit',
+												name: 'trimStringUnit',
+												displayOptions: {
+													show: {
+														action: ['trim'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												required: true,
+												description:
+													'Whether to use the trim chain as a whole unit and not each individual character in that chain',
+											},
+											{
+												displayName: 'Pad',
+												name: 'pad',
+												displayOptions: {
+													show: {
+														action: ['pad'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Pad Start',
+														value: 'padStart',
+														description: 'Pad the string at the beginning',
+													},
+													{
+														name: 'Pad End',
+														value: 'padEnd',
+														description: 'Pad the string at the end',
+													},
+												],
+												default: 'padStart',
 											},
 											{
-												displayName: 'Destination Key',
-												name: 'destinationKey',
+												displayName: 'Count By',
+												name: 'countBy',
 												displayOptions: {
 													show: {
-														writeOperation: ['toJSON'],
+														action: ['pad', 'substring'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Code Units',
+														value: 'codeUnits',
+														description: 'Count UTF-16 code units like JavaScript does (emojis count as 2)',
+													},
+													{
+														name: 'Code Points',
+														value: 'codePoints',
+														description: 'Count Unicode code points',
+													},
+													{
+														name: 'Graphemes',
+														value: 'graphemes',
+														description:
+															'Count characters as they are displayed (emojis and combined characters count as 1)',
+													},
+												],
+												default: 'codeUnits',
+											},
+											{
+												displayName: 'Target Length',
+												name: 'targetLength',
+												displayOptions: {
+													show: {
+														action: ['pad'],
+													},
+												},
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 1,
+												required: true,
+												placeholder: '1',
+												description: 'The length to which the string should be padded',
+											},
+											{
+												displayName: 'Pad String',
+												name: 'padString',
+												displayOptions: {
+													show: {
+														action: ['pad'],
 													},
 												},
 												type: 'string',
-												default: 'data',
+												default: ' ',
 												required: true,
-												placeholder: 'data',
+												description: 'The filling string',
+											},
+											{
+												displayName: 'Start Position',
+												name: 'startPosition',
+												displayOptions: {
+													show: {
+														action: ['substring'],
+													},
+												},
+												type: 'number',
+												default: 0,
+												placeholder: '0',
 												description:
-													'The name the JSON key to copy data to. It is also possibleto define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+													'The start position (string begins with 0). Can also be negativ.',
 											},
-										],
-									},
-								],
-							},
-							{
-								displayName: 'Manipulations',
-								name: 'manipulations',
-								placeholder: 'Add Manipulation',
-								type: 'fixedCollection',
-								typeOptions: {
-									multipleValues: true,
-									sortable: true,
-								},
-								description: 'The manipulations for the data sources',
-								default: {},
-								options: [
-									{
-										name: 'manipulation',
-										displayName: 'Manipulation',
-										values: [
 											{
-												displayName: 'Action',
-												name: 'action',
+												displayName: 'End',
+												name: 'end',
+												displayOptions: {
+													show: {
+														action: ['substring'],
+													},
+												},
 												type: 'options',
 												options: [
 													{
-														name: 'Concat',
-														value: 'concat',
-														description: 'Add string to the beginning or/and end',
-														action: 'Add string to the beginning or and end',
+														name: 'Complete',
+														value: 'complete',
+														description: 'Selects everything to the end',
 													},
 													{
-														name: 'Decode/Encode',
-														value: 'decodeEncode',
-														description: 'Decode and Encode string',
-														action: 'Decode and encode string',
+														name: 'Position',
+														value: 'position',
+														description:
+															'Selects everything up to the position (exclusive position). Can also be negative.',
 													},
 													{
-														name: 'Decode/Encode Entities',
-														value: 'decodeEncodeEntities',
-														description: 'Decode and Encode HTML & XML entities',
-														action: 'Decode and encode html xml entities',
+														name: 'Length',
+														value: 'length',
+														description: 'The length of the selected rows',
 													},
-													{
-														name: 'Letter Case',
-														value: 'letterCase',
-														description: 'Upper and lowercase letters in a string',
-														action: 'Upper and lowercase letters in a string',
+												],
+												default: 'complete',
+												description: 'The end of the substring',
+											},
+											{
+												displayName: 'Position',
+												name: 'endPosition',
+												displayOptions: {
+													show: {
+														action: ['substring'],
+														end: ['position'],
 													},
-													{
-														name: 'Normalize',
-														value: 'normalize',
-														description: 'Normalize a string',
-														action: 'Normalize a string',
+												},
+												type: 'number',
+												default: 1,
+												placeholder: '1',
+												description: 'The end position of the substring. Can also be negative.',
+											},
+											{
+												displayName: 'Length',
+												name: 'endLength',
+												displayOptions: {
+													show: {
+														action: ['substring'],
+														end: ['length'],
 													},
-													{
-														name: 'Pad',
-														value: 'pad',
-														description: 'Pad the string at the beginning or end',
-														action: 'Pad the string at the beginning or end',
+												},
+												typeOptions: {
+													minValue: 0,
+												},
+												type: 'number',
+												default: 1,
+												placeholder: '1',
+												description: 'The length of the substring',
+											},
+											{
+												displayName: 'Times',
+												name: 'times',
+												displayOptions: {
+													show: {
+														action: ['repeat'],
+													},
+												},
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 1,
+												required: true,
+												placeholder: '1',
+												description: 'The number of times the string should be repeated',
+											},
+											{
+												displayName: 'Split Mode',
+												name: 'splitMode',
+												displayOptions: {
+													show: {
+														action: ['split'],
 													},
+												},
+												type: 'options',
+												options: [
 													{
-														name: 'Repeat',
-														value: 'repeat',
-														description: 'Repeat the string',
-														action: 'Repeat the string',
+														name: 'Substring',
+														value: 'substring',
+														description: 'Split by a substring',
 													},
 													{
-														name: 'Replace',
-														value: 'replace',
-														description: 'Replace a substring or regex',
-														action: 'Replace a substring or regex',
+														name: 'Extended Substring',
+														value: 'extendedSubstring',
+														description: 'Split by a substring including escape characters',
 													},
 													{
-														name: 'Substring',
-														value: 'substring',
-														description: 'Get a substring',
-														action: 'Get a substring',
+														name: 'Regex',
+														value: 'regex',
+														description: 'Split by a regex',
+													},
+												],
+												default: 'substring',
+											},
+											{
+												displayName: 'Separator',
+												name: 'separator',
+												displayOptions: {
+													show: {
+														action: ['split'],
+														splitMode: ['substring', 'extendedSubstring'],
+													},
+												},
+												type: 'string',
+												default: ',',
+												placeholder: ',',
+												description: 'The substring to split by',
+											},
+											{
+												displayName: 'Regex',
+												name: 'splitRegex',
+												displayOptions: {
+													show: {
+														action: ['split'],
+														splitMode: ['regex'],
+													},
+												},
+												type: 'string',
+												default: '',
+												required: true,
+												placeholder: '/\\s*,\\s*/',
+												description: 'Regular expression to split by',
+											},
+											{
+												displayName: 'Max Parts',
+												name: 'maxParts',
+												displayOptions: {
+													show: {
+														action: ['split'],
+													},
+												},
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 0,
+												placeholder: '0',
+												description: 'The maximum number of parts. 0 means no limit.',
+											},
+											{
+												displayName: 'Trim Each',
+												name: 'trimEach',
+												displayOptions: {
+													show: {
+														action: ['split'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether whitespace should be removed from the beginning and end of each part',
+											},
+											{
+												displayName: 'Drop Empty',
+												name: 'dropEmpty',
+												displayOptions: {
+													show: {
+														action: ['split'],
 													},
-													{
-														name: 'Trim',
-														value: 'trim',
-														description: 'Removes characters from the beginning or/and end',
-														action: 'Removes characters from the beginning or and end',
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether empty parts should be removed',
+											},
+											{
+												displayName: 'Regex',
+												name: 'extractRegex',
+												displayOptions: {
+													show: {
+														action: ['extract'],
 													},
-												],
-												default: 'letterCase',
+												},
+												type: 'string',
+												default: '',
+												required: true,
+												placeholder: '/(?<key>\\w+)=(?<value>\\w+)/g',
+												description:
+													'Regular expression. With the global flag all matches are extracted, otherwise only the first match.',
 											},
 											{
-												displayName: 'Normalize Form',
-												name: 'normalizeForm',
+												displayName: 'Extract Mode',
+												name: 'extractMode',
 												displayOptions: {
 													show: {
-														action: ['normalize'],
+														action: ['extract'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'NFC',
-														value: 'nfc',
-														description:
-															'Canonical Decomposition, followed by Canonical Composition',
+														name: 'First Match',
+														value: 'firstMatch',
+														description: 'Extract the first match as text',
 													},
 													{
-														name: 'NFD',
-														value: 'nfd',
-														description: 'Canonical Decomposition',
+														name: 'All Matches',
+														value: 'allMatches',
+														description: 'Extract all matches as an array of texts',
 													},
 													{
-														name: 'NFKC',
-														value: 'nfkc',
+														name: 'Capture Group',
+														value: 'captureGroup',
 														description:
-															'Compatibility Decomposition, followed by Canonical Composition',
+															'Extract a capture group. With the global flag an array of the capture group of all matches.',
 													},
 													{
-														name: 'NFKD',
-														value: 'nfkd',
-														description: 'Compatibility Decomposition',
+														name: 'Named Groups',
+														value: 'namedGroups',
+														description:
+															'Extract an object of the named groups. With the global flag an array of such objects.',
 													},
 												],
-												default: 'nfc',
+												default: 'firstMatch',
 											},
 											{
-												displayName: 'Case Type',
-												name: 'caseType',
+												displayName: 'Capture Group',
+												name: 'captureGroup',
 												displayOptions: {
 													show: {
-														action: ['letterCase'],
+														action: ['extract'],
+														extractMode: ['captureGroup'],
+													},
+												},
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 1,
+												placeholder: '1',
+												description: 'The number of the capture group (0 is the whole match)',
+											},
+											{
+												displayName: 'Algorithm',
+												name: 'hashAlgorithm',
+												displayOptions: {
+													show: {
+														action: ['hash'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Camel Case',
-														value: 'camelCase',
-														description: 'Converts string to camel case',
-													},
-													{
-														name: 'Capitalize',
-														value: 'capitalize',
-														description: 'Capitalize text',
-													},
-													{
-														name: 'Kebab Case',
-														value: 'kebabCase',
-														description: 'Converts string to kebab case',
-													},
-													{
-														name: 'Locale Lower Case',
-														value: 'localeLowerCase',
-														description: 'Locale lower case all characters',
+														name: 'CRC32',
+														value: 'crc32',
 													},
 													{
-														name: 'Locale Upper Case',
-														value: 'localeUpperCase',
-														description: 'Locale upper case all characters',
+														name: 'MD5',
+														value: 'md5',
 													},
 													{
-														name: 'Lower Case',
-														value: 'lowerCase',
-														description: 'Lower case all characters',
+														name: 'SHA1',
+														value: 'sha1',
 													},
 													{
-														name: 'Snake Case',
-														value: 'snakeCase',
-														description: 'Converts string to snake case',
+														name: 'SHA256',
+														value: 'sha256',
 													},
 													{
-														name: 'Start Case',
-														value: 'startCase',
-														description: 'Converts string to start case',
+														name: 'SHA3-256',
+														value: 'sha3-256',
 													},
 													{
-														name: 'Titlecase',
-														value: 'titlecase',
-														description: 'Titlecase text',
+														name: 'SHA3-512',
+														value: 'sha3-512',
 													},
 													{
-														name: 'Upper Case',
-														value: 'upperCase',
-														description: 'Upper case all characters',
+														name: 'SHA512',
+														value: 'sha512',
 													},
 												],
-												default: 'lowerCase',
+												default: 'sha256',
 											},
 											{
-												displayName: 'Language',
-												name: 'language',
+												displayName: 'HMAC',
+												name: 'hmac',
 												displayOptions: {
 													show: {
-														action: ['letterCase'],
-														caseType: ['localeLowerCase', 'localeUpperCase'],
+														action: ['hash'],
+													},
+													hide: {
+														hashAlgorithm: ['crc32'],
 													},
 												},
-												type: 'string',
-												default: 'en',
-												required: true,
-												description: 'Change the language of the localbase method',
+												type: 'boolean',
+												default: false,
+												description: 'Whether to create an HMAC with a secret instead of a plain hash',
 											},
 											{
-												displayName: 'Before',
-												name: 'before',
+												displayName: 'Secret',
+												name: 'hmacSecret',
 												displayOptions: {
 													show: {
-														action: ['concat'],
+														action: ['hash'],
+														hmac: [true],
+													},
+													hide: {
+														hashAlgorithm: ['crc32'],
 													},
 												},
 												type: 'string',
+												typeOptions: {
+													password: true,
+												},
 												default: '',
-												description: 'String to be added at the beginning',
+												description: 'The secret key of the HMAC',
 											},
 											{
-												displayName: 'After',
-												name: 'after',
+												displayName: 'Encode With',
+												name: 'hashEncodeWith',
 												displayOptions: {
 													show: {
-														action: ['concat'],
+														action: ['hash'],
 													},
 												},
-												type: 'string',
-												default: '',
-												description: 'String to be added at the end',
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+												description: 'The encoding of the string which is used to create the hash',
 											},
 											{
-												displayName: 'Decode With',
-												name: 'decodeWith',
+												displayName: 'Output',
+												name: 'hashOutput',
 												displayOptions: {
 													show: {
-														action: ['decodeEncode'],
+														action: ['hash'],
 													},
 												},
 												type: 'options',
-												options: encodeDecodeOptions,
-												default: 'utf8',
+												options: [
+													{
+														name: 'Base64',
+														value: 'base64',
+													},
+													{
+														name: 'Base64URL',
+														value: 'base64url',
+													},
+													{
+														name: 'Hex',
+														value: 'hex',
+													},
+												],
+												default: 'hex',
 											},
 											{
-												displayName: 'Decode With',
-												name: 'decodeWithEntities',
+												displayName: 'Lines Operation',
+												name: 'linesOperation',
 												displayOptions: {
 													show: {
-														action: ['decodeEncodeEntities'],
+														action: ['lines'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Html',
-														value: 'html',
-													},
-													{
-														name: 'Nothing',
-														value: 'nothing',
+														name: 'Reverse',
+														value: 'reverse',
+														description: 'Reverse the order of the lines',
 													},
 													{
-														name: 'Url',
-														value: 'url',
+														name: 'Shuffle',
+														value: 'shuffle',
+														description: 'Shuffle the lines',
 													},
 													{
-														name: 'Url Component',
-														value: 'urlComponent',
+														name: 'Sort',
+														value: 'sort',
+														description: 'Sort the lines',
 													},
 													{
-														name: 'Xml',
-														value: 'xml',
+														name: 'Unique',
+														value: 'unique',
+														description: 'Remove duplicate lines',
 													},
 												],
-												default: 'nothing',
+												default: 'sort',
 											},
 											{
-												displayName: 'Decode Mode',
-												name: 'entitiesDecodeMode',
+												displayName: 'Sort Mode',
+												name: 'sortMode',
 												displayOptions: {
 													show: {
-														action: ['decodeEncodeEntities'],
-														decodeWithEntities: ['xml', 'html'],
+														action: ['lines'],
+														linesOperation: ['sort'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Legacy',
-														value: 'legacy',
+														name: 'Lexical',
+														value: 'lexical',
+														description: 'Sort by the UTF-16 code units',
 													},
 													{
-														name: 'Strict',
-														value: 'strict',
+														name: 'Locale',
+														value: 'locale',
+														description: 'Sort by the rules of a language',
+													},
+													{
+														name: 'Natural',
+														value: 'natural',
+														description: 'Sort numbers in the lines by their value (e.g. "item2" before "item10")',
+													},
+													{
+														name: 'Numeric',
+														value: 'numeric',
+														description: 'Sort the lines as numbers. Lines which are not numbers are sorted to the end.',
 													},
 												],
-												default: 'legacy',
+												default: 'lexical',
 											},
 											{
-												displayName: 'Strip BOM',
-												name: 'stripBOM',
+												displayName: 'Language',
+												name: 'language',
 												displayOptions: {
 													show: {
-														action: ['decodeEncode'],
-														decodeWith: bomAware,
+														action: ['lines'],
+														linesOperation: ['sort'],
+														sortMode: ['locale'],
+													},
+												},
+												type: 'string',
+												default: 'en',
+												required: true,
+												description: 'The language whose rules are used for sorting',
+											},
+											{
+												displayName: 'Descending',
+												name: 'sortDescending',
+												displayOptions: {
+													show: {
+														action: ['lines'],
+														linesOperation: ['sort'],
 													},
 												},
 												type: 'boolean',
-												default: true,
+												default: false,
+												description: 'Whether to sort in descending order',
 											},
 											{
-												displayName: 'Encode With',
-												name: 'encodeWith',
+												displayName: 'Case Sensitive',
+												name: 'caseSensitive',
 												displayOptions: {
 													show: {
-														action: ['decodeEncode'],
+														action: ['lines'],
+														linesOperation: ['unique'],
 													},
 												},
-												type: 'options',
-												options: encodeDecodeOptions,
-												default: 'utf8',
+												type: 'boolean',
+												default: true,
+												description: 'Whether lines which only differ in case are different',
 											},
 											{
-												displayName: 'Encode With',
-												name: 'encodeWithEntities',
+												displayName: 'Keep',
+												name: 'keep',
 												displayOptions: {
 													show: {
-														action: ['decodeEncodeEntities'],
+														action: ['lines'],
+														linesOperation: ['unique'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Html',
-														value: 'html',
-													},
-													{
-														name: 'Nothing',
-														value: 'nothing',
-													},
-													{
-														name: 'Url',
-														value: 'url',
-													},
-													{
-														name: 'Url Component',
-														value: 'urlComponent',
+														name: 'First',
+														value: 'first',
+														description: 'Keep the first occurrence of a line',
 													},
 													{
-														name: 'Xml',
-														value: 'xml',
+														name: 'Last',
+														value: 'last',
+														description: 'Keep the last occurrence of a line',
 													},
 												],
-												default: 'nothing',
+												default: 'first',
 											},
 											{
-												displayName: 'Encode Mode',
-												name: 'entitiesEncodeMode',
+												displayName: 'Seed',
+												name: 'seed',
 												displayOptions: {
 													show: {
-														action: ['decodeEncodeEntities'],
-														encodeWithEntities: ['xml', 'html'],
+														action: ['lines'],
+														linesOperation: ['shuffle'],
+													},
+												},
+												type: 'string',
+												default: '',
+												description: 'The same seed always results in the same order. Without a seed the order is random.',
+											},
+											{
+												displayName: 'Filter By',
+												name: 'filterLinesBy',
+												displayOptions: {
+													show: {
+														action: ['filterLines'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Extensive',
-														value: 'extensive',
+														name: 'Match',
+														value: 'match',
+														description: 'Keep or remove lines which contain a substring or match a regex',
 													},
 													{
-														name: 'UTF8',
-														value: 'utf8',
+														name: 'First Lines',
+														value: 'head',
+														description: 'Keep only the first lines',
 													},
 													{
-														name: 'NonAscii',
-														value: 'nonAscii',
+														name: 'Last Lines',
+														value: 'tail',
+														description: 'Keep only the last lines',
 													},
-												],
-												default: 'extensive',
-											},
-											{
-												displayName: 'Add BOM',
-												name: 'addBOM',
-												displayOptions: {
-													show: {
-														action: ['decodeEncode'],
-														encodeWith: bomAware,
+													{
+														name: 'Range',
+														value: 'range',
+														description: 'Keep only the lines of a range',
 													},
-												},
-												type: 'boolean',
-												default: false,
+												],
+												default: 'match',
 											},
 											{
-												displayName: 'Replace Mode',
-												name: 'replaceMode',
+												displayName: 'Match Mode',
+												name: 'matchMode',
 												displayOptions: {
 													show: {
-														action: ['replace'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
 													},
 												},
 												type: 'options',
@@ -844,516 +5583,691 @@ export class TextManipulation implements INodeType {
 													{
 														name: 'Substring',
 														value: 'substring',
-														description: 'Replace a substring with a value',
+														description: 'Lines which contain a substring',
 													},
 													{
 														name: 'Extended Substring',
 														value: 'extendedSubstring',
-														description:
-															'Replace a substring including escape characters with a value',
+														description: 'Lines which contain a substring including escape characters',
 													},
 													{
-														name: 'Regex',
-														value: 'regex',
-														description: 'Replace regex with a pattern',
-													},
-													{
-														name: 'Predefined Rule',
-														value: 'predefinedRule',
-														description: 'Use a predefined rule to replace',
+														name: 'Regex',
+														value: 'regex',
+														description: 'Lines which match a regex',
 													},
 												],
 												default: 'substring',
 											},
 											{
-												displayName: 'Regex',
-												name: 'regex',
+												displayName: 'Substring',
+												name: 'filterSubstring',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['regex'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
+														matchMode: ['substring', 'extendedSubstring'],
 													},
 												},
 												type: 'string',
 												default: '',
 												required: true,
-												placeholder: '.*',
-												description: 'Regular expression',
+												placeholder: 'ERROR',
+												description: 'The substring which the lines have to contain',
 											},
 											{
-												displayName: 'Pattern',
-												name: 'pattern',
+												displayName: 'Regex',
+												name: 'filterRegex',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['regex'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
+														matchMode: ['regex'],
 													},
 												},
 												type: 'string',
 												default: '',
-												placeholder: '$&',
-												// eslint-disable-next-line n8n-nodes-base/node-param-description-unencoded-angle-brackets
-												description:
-													'<table><tr><th>Pattern</th><th>Inserts</th></tr><tr><td>$$</td><td>Inserts a "$".</td></tr><tr><td>$&</td><td>Inserts the matched substring.</td></tr><tr><td>$`</td><td>Inserts the portion of the string that precedes the matched substring.</td></tr><tr><td>$\'</td><td>Inserts the portion of the string that follows the matched substring.</td></tr><tr><td>$n</td><td>Where n is a positive integer less than 100, inserts the nth parenthesized submatch string, provided the first argument was a RegExp object. Note that this is 1-indexed. If a group n is not present (e.g., if group is 3), it will be replaced as a literal (e.g., $3).</td></tr><tr><td>$<Name></td><td>Where Name is a capturing group name. If the group is not in the match, or not in the regular expression, or if a string was passed as the first argument to replace instead of a regular expression, this resolves to a literal (e.g., $<Name>).</td></tr></table>',
+												required: true,
+												placeholder: '/error|warn/i',
+												description: 'Regular expression which the lines have to match',
 											},
 											{
-												displayName: 'Predefined Rule',
-												name: 'predefinedRule',
+												displayName: 'Filter Action',
+												name: 'filterAction',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Tags',
-														value: 'tags',
-														description: 'Replace all tags',
+														name: 'Keep',
+														value: 'keep',
+														description: 'Keep the matching lines and their context',
 													},
 													{
-														name: 'Character Groups',
-														value: 'characterGroups',
-														description: 'Replace all defined character groups',
+														name: 'Remove',
+														value: 'remove',
+														description: 'Remove the matching lines and their context',
 													},
 												],
-												default: 'tags',
+												default: 'keep',
 											},
 											{
-												displayName: 'Only Recognised HTML',
-												name: 'onlyRecognisedHTML',
+												displayName: 'Context Before',
+												name: 'contextBefore',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['tags'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
 													},
 												},
-												type: 'boolean',
-												default: false,
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 0,
+												placeholder: '0',
+												description: 'The number of lines before a matching line which are also selected',
 											},
 											{
-												displayName: 'Newline',
-												name: 'newline',
+												displayName: 'Context After',
+												name: 'contextAfter',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
+														action: ['filterLines'],
+														filterLinesBy: ['match'],
 													},
 												},
-												type: 'boolean',
-												default: false,
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 0,
+												placeholder: '0',
+												description: 'The number of lines after a matching line which are also selected',
 											},
 											{
-												displayName: 'Newline Min',
-												name: 'newlineMin',
+												displayName: 'Line Count',
+												name: 'lineCount',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														newline: [true],
+														action: ['filterLines'],
+														filterLinesBy: ['head', 'tail'],
 													},
 												},
 												type: 'number',
-												default: 1,
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 10,
+												required: true,
+												placeholder: '10',
+												description: 'The number of lines to keep',
 											},
 											{
-												displayName: 'Newline Max',
-												name: 'newlineMax',
+												displayName: 'Start Line',
+												name: 'startLine',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														newline: [true],
+														action: ['filterLines'],
+														filterLinesBy: ['range'],
 													},
 												},
 												type: 'number',
 												default: 1,
+												placeholder: '1',
+												description: 'The first line of the range (lines begin with 1). Can also be negative.',
 											},
 											{
-												displayName: 'Number',
-												name: 'number',
+												displayName: 'End Line',
+												name: 'endLine',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
+														action: ['filterLines'],
+														filterLinesBy: ['range'],
 													},
 												},
-												type: 'boolean',
-												default: false,
+												type: 'number',
+												default: -1,
+												placeholder: '-1',
+												description: 'The last line of the range (inclusive). Can also be negative, -1 is the last line.',
 											},
 											{
-												displayName: 'Number Min',
-												name: 'numberMin',
+												displayName: 'Template',
+												name: 'template',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														number: [true],
+														action: ['template'],
 													},
 												},
-												type: 'number',
-												default: 1,
+												type: 'string',
+												typeOptions: {
+													rows: 4,
+												},
+												default: '{{text}}',
+												required: true,
+												placeholder: 'Dear {{json.customer.name | default:"customer"}}, {{text | trim}}',
+												// eslint-disable-next-line n8n-nodes-base/node-param-description-miscased-json
+												description:
+													'Placeholders like {{text}} or {{json.customer.name}} are replaced. Filters can be added with a pipe: upper, lower, capitalize, trim, default:"value", pad:10, padStart:10 and json.',
 											},
 											{
-												displayName: 'Number Max',
-												name: 'numberMax',
+												displayName: 'Unit',
+												name: 'truncateUnit',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														number: [true],
+														action: ['truncate'],
 													},
 												},
-												type: 'number',
-												default: 1,
+												type: 'options',
+												options: [
+													{
+														name: 'Characters',
+														value: 'characters',
+														description: 'Count characters as they are displayed (graphemes)',
+													},
+													{
+														name: 'Bytes',
+														value: 'bytes',
+														description: 'Count the bytes of the encoded string',
+													},
+												],
+												default: 'characters',
 											},
 											{
-												displayName: 'Alpha',
-												name: 'alpha',
+												displayName: 'Encode With',
+												name: 'truncateEncodeWith',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
+														action: ['truncate'],
+														truncateUnit: ['bytes'],
 													},
 												},
-												type: 'boolean',
-												default: false,
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+												description: 'The encoding which is used to count the bytes',
 											},
 											{
-												displayName: 'Alpha Min',
-												name: 'alphaMin',
+												displayName: 'Max Length',
+												name: 'maxLength',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														alpha: [true],
+														action: ['truncate'],
 													},
 												},
 												type: 'number',
-												default: 1,
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 100,
+												required: true,
+												placeholder: '100',
+												description: 'The maximum number of characters or bytes',
 											},
 											{
-												displayName: 'Alpha Max',
-												name: 'alphaMax',
+												displayName: 'When Too Long',
+												name: 'whenTooLong',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														alpha: [true],
+														action: ['truncate'],
 													},
 												},
-												type: 'number',
-												default: 1,
+												type: 'options',
+												options: [
+													{
+														name: 'Truncate',
+														value: 'truncate',
+														description: 'Shorten the string',
+													},
+													{
+														name: 'Throw Error',
+														value: 'error',
+														description: 'Keep the string and throw an error',
+													},
+												],
+												default: 'truncate',
 											},
 											{
-												displayName: 'Whitespace',
-												name: 'whitespace',
+												displayName: 'Ellipsis',
+												name: 'ellipsis',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
+														action: ['truncate'],
+														whenTooLong: ['truncate'],
+													},
+												},
+												type: 'string',
+												default: '…',
+												description: 'The string which is added at the end if the string was truncated',
+											},
+											{
+												displayName: 'Count Ellipsis',
+												name: 'countEllipsis',
+												displayOptions: {
+													show: {
+														action: ['truncate'],
+														whenTooLong: ['truncate'],
 													},
 												},
 												type: 'boolean',
-												default: false,
+												default: true,
+												description: 'Whether the ellipsis counts into the max length',
 											},
 											{
-												displayName: 'Whitespace Min',
-												name: 'whitespaceMin',
+												displayName: 'Truncate At',
+												name: 'truncateAt',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														whitespace: [true],
+														action: ['truncate'],
+														whenTooLong: ['truncate'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Grapheme',
+														value: 'grapheme',
+														description: 'Cut between any two characters',
+													},
+													{
+														name: 'Word',
+														value: 'word',
+														description: 'Cut only between words',
+													},
+													{
+														name: 'Sentence',
+														value: 'sentence',
+														description: 'Cut only between sentences. If the first sentence is too long, cut between words.',
+													},
+												],
+												default: 'word',
+											},
+											{
+												displayName: 'Unit',
+												name: 'chunkUnit',
+												displayOptions: {
+													show: {
+														action: ['chunk'],
+													},
+												},
+												type: 'options',
+												options: [
+													{
+														name: 'Characters',
+														value: 'characters',
+														description: 'Count characters as they are displayed (graphemes)',
+													},
+													{
+														name: 'Paragraphs',
+														value: 'paragraphs',
+														description: 'Count paragraphs separated by blank lines',
+													},
+													{
+														name: 'Sentences',
+														value: 'sentences',
+														description: 'Count sentences',
+													},
+													{
+														name: 'Tokens (Approximate)',
+														value: 'tokens',
+														description: 'Count tokens of language models, roughly four characters are one token',
+													},
+													{
+														name: 'Words',
+														value: 'words',
+														description: 'Count words',
+													},
+												],
+												default: 'characters',
+											},
+											{
+												displayName: 'Chunk Size',
+												name: 'chunkSize',
+												displayOptions: {
+													show: {
+														action: ['chunk'],
 													},
 												},
 												type: 'number',
-												default: 1,
+												typeOptions: {
+													minValue: 1,
+												},
+												default: 1000,
+												required: true,
+												placeholder: '1000',
+												description: 'The maximum size of a chunk in the unit',
 											},
 											{
-												displayName: 'Whitespace Max',
-												name: 'whitespaceMax',
+												displayName: 'Overlap',
+												name: 'chunkOverlap',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['predefinedRule'],
-														predefinedRule: ['characterGroups'],
-														whitespace: [true],
+														action: ['chunk'],
 													},
 												},
 												type: 'number',
-												default: 1,
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 0,
+												placeholder: '0',
+												description: 'The size in the unit which is repeated from the end of the previous chunk',
 											},
 											{
-												displayName: 'Substring',
-												name: 'substring',
+												displayName: 'Respect Markdown',
+												name: 'respectMarkdown',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['substring', 'extendedSubstring'],
+														action: ['chunk'],
 													},
 												},
-												type: 'string',
-												default: '',
-												required: true,
-												placeholder: 'sub',
-												description: 'The substring to be replaced',
+												type: 'boolean',
+												default: false,
+												description:
+													'Whether code blocks should not be split and headings should start a new chunk. Code blocks which are bigger than the chunk size get their own chunk.',
 											},
 											{
-												displayName: 'Value',
-												name: 'value',
+												displayName: 'Separator',
+												name: 'slugSeparator',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['substring', 'extendedSubstring', 'predefinedRule'],
+														action: ['slugify'],
 													},
 												},
 												type: 'string',
-												default: '',
-												placeholder: '',
-												description: 'The value that should replace the substring',
+												default: '-',
+												description: 'The separator between the words of the slug',
 											},
 											{
-												displayName: 'Replace All',
-												name: 'replaceAll',
+												displayName: 'Lower Case',
+												name: 'slugLowerCase',
 												displayOptions: {
 													show: {
-														action: ['replace'],
-														replaceMode: ['substring', 'extendedSubstring'],
+														action: ['slugify'],
 													},
 												},
 												type: 'boolean',
 												default: true,
-												placeholder: '',
+												description: 'Whether the slug should be converted to lower case',
+											},
+											{
+												displayName: 'Max Length',
+												name: 'slugMaxLength',
+												displayOptions: {
+													show: {
+														action: ['slugify'],
+													},
+												},
+												type: 'number',
+												typeOptions: {
+													minValue: 0,
+												},
+												default: 0,
+												placeholder: '0',
 												description:
-													'Whether all substrings should be replaced (not only the first)',
+													'The maximum length of the slug. The slug is cut at a separator if possible. 0 means no limit.',
+											},
+											{
+												displayName: 'Custom Replacements',
+												name: 'customReplacements',
+												displayOptions: {
+													show: {
+														action: ['slugify', 'transliterate'],
+													},
+												},
+												type: 'json',
+												default: '{}',
+												placeholder: '{ "ä": "ae", "&": "and" }',
+												description: 'Replacements which are applied before the transliteration',
 											},
 											{
-												displayName: 'Extended',
-												name: 'extended',
+												displayName: 'Normalize Unicode Spaces',
+												name: 'normalizeSpaces',
 												displayOptions: {
 													show: {
-														action: ['replace'],
+														action: ['whitespace'],
 													},
 												},
 												type: 'boolean',
-												default: false,
-												placeholder: '',
+												default: true,
 												description:
-													'Whether all escape characters should be used for replacement (\\n, \\r, \\t, ...)',
+													'Whether spaces like the no-break space, thin space or ideographic space should be replaced with a normal space',
 											},
 											{
-												displayName: 'Trim',
-												name: 'trim',
+												displayName: 'Tabs',
+												name: 'tabs',
 												displayOptions: {
 													show: {
-														action: ['trim'],
+														action: ['whitespace'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Trim Both',
-														value: 'trimBoth',
-														description: 'Removes characters from the beginning and end',
+														name: 'Keep',
+														value: 'keep',
+														description: 'Keep the tabs and spaces',
 													},
 													{
-														name: 'Trim Start',
-														value: 'trimStart',
-														description: 'Removes characters from the beginning',
+														name: 'Spaces to Tabs',
+														value: 'toTabs',
+														description: 'Convert the spaces of the indentation to tabs',
 													},
 													{
-														name: 'Trim End',
-														value: 'trimEnd',
-														description: 'Removes characters from the end',
+														name: 'Tabs to Spaces',
+														value: 'toSpaces',
+														description: 'Convert all tabs to spaces up to the next tab stop',
 													},
 												],
-												default: 'trimBoth',
+												default: 'keep',
 											},
 											{
-												displayName: 'Trim String',
-												name: 'trimString',
+												displayName: 'Tab Width',
+												name: 'tabWidth',
 												displayOptions: {
 													show: {
-														action: ['trim'],
+														action: ['whitespace'],
+														tabs: ['toSpaces', 'toTabs'],
 													},
 												},
-												type: 'string',
-												default: ' ',
-												required: true,
-												description: 'The string to trim',
+												type: 'number',
+												typeOptions: {
+													minValue: 1,
+												},
+												default: 4,
+												placeholder: '4',
+												description: 'The number of columns between the tab stops',
 											},
 											{
-												displayName: 'Trim String as an Unit',
-												name: 'trimStringUnit',
+												displayName: 'Collapse Spaces',
+												name: 'collapseSpaces',
 												displayOptions: {
 													show: {
-														action: ['trim'],
+														action: ['whitespace'],
 													},
 												},
 												type: 'boolean',
 												default: true,
-												required: true,
 												description:
-													'Whether to use the trim chain as a whole unit and not each individual character in that chain',
+													'Whether runs of spaces inside a line should be replaced with a single space. The indentation and tabs are kept.',
 											},
 											{
-												displayName: 'Pad',
-												name: 'pad',
+												displayName: 'Strip Trailing Whitespace',
+												name: 'stripTrailing',
 												displayOptions: {
 													show: {
-														action: ['pad'],
+														action: ['whitespace'],
+													},
+												},
+												type: 'boolean',
+												default: true,
+												description: 'Whether whitespace at the end of each line should be removed',
+											},
+											{
+												displayName: 'Collapse Blank Lines',
+												name: 'collapseBlankLines',
+												displayOptions: {
+													show: {
+														action: ['whitespace'],
+													},
+												},
+												type: 'boolean',
+												default: false,
+												description: 'Whether multiple blank lines in a row should be replaced with a single blank line',
+											},
+											{
+												displayName: 'Line Endings',
+												name: 'lineEndings',
+												displayOptions: {
+													show: {
+														action: ['whitespace'],
 													},
 												},
 												type: 'options',
 												options: [
 													{
-														name: 'Pad Start',
-														value: 'padStart',
-														description: 'Pad the string at the beginning',
+														name: 'CR (Classic Mac)',
+														value: 'cr',
 													},
 													{
-														name: 'Pad End',
-														value: 'padEnd',
-														description: 'Pad the string at the end',
+														name: 'CRLF (Windows)',
+														value: 'crlf',
+													},
+													{
+														name: 'Keep',
+														value: 'keep',
+														description: 'Keep the line endings. Mixed line endings are changed to the first one.',
+													},
+													{
+														name: 'LF (Unix)',
+														value: 'lf',
 													},
 												],
-												default: 'padStart',
+												default: 'keep',
 											},
 											{
-												displayName: 'Target Length',
-												name: 'targetLength',
+												displayName: 'Tokenize By',
+												name: 'tokenizeBy',
 												displayOptions: {
 													show: {
-														action: ['pad'],
+														action: ['tokenize'],
 													},
 												},
-												type: 'number',
-												typeOptions: {
-													minValue: 0,
-												},
-												default: 1,
-												required: true,
-												placeholder: '1',
-												description: 'The length to which the string should be padded',
+												type: 'options',
+												options: [
+													{
+														name: 'Grapheme',
+														value: 'grapheme',
+														description: 'Split into characters as they are displayed',
+													},
+													{
+														name: 'Sentence',
+														value: 'sentence',
+														description: 'Split into sentences',
+													},
+													{
+														name: 'Word',
+														value: 'word',
+														description: 'Split into words, also for languages without spaces like Japanese or Thai',
+													},
+												],
+												default: 'word',
 											},
 											{
-												displayName: 'Pad String',
-												name: 'padString',
+												displayName: 'Language',
+												name: 'language',
 												displayOptions: {
 													show: {
-														action: ['pad'],
+														action: ['tokenize'],
 													},
 												},
 												type: 'string',
-												default: ' ',
+												default: 'en',
 												required: true,
-												description: 'The filling string',
+												description: 'The language whose rules are used for finding the boundaries',
 											},
 											{
-												displayName: 'Start Position',
-												name: 'startPosition',
+												displayName: 'Drop Whitespace',
+												name: 'dropWhitespace',
 												displayOptions: {
 													show: {
-														action: ['substring'],
+														action: ['tokenize'],
 													},
 												},
-												type: 'number',
-												default: 0,
-												placeholder: '0',
-												description:
-													'The start position (string begins with 0). Can also be negativ.',
+												type: 'boolean',
+												default: true,
+												description: 'Whether whitespace tokens should be removed and the tokens should be trimmed',
 											},
 											{
-												displayName: 'End',
-												name: 'end',
+												displayName: 'Drop Punctuation',
+												name: 'dropPunctuation',
 												displayOptions: {
 													show: {
-														action: ['substring'],
+														action: ['tokenize'],
 													},
 												},
-												type: 'options',
-												options: [
-													{
-														name: 'Complete',
-														value: 'complete',
-														description: 'Selects everything to the end',
-													},
-													{
-														name: 'Position',
-														value: 'position',
-														description:
-															'Selects everything up to the position (exclusive position). Can also be negative.',
-													},
-													{
-														name: 'Length',
-														value: 'length',
-														description: 'The length of the selected rows',
-													},
-												],
-												default: 'complete',
-												description: 'The end of the substring',
+												type: 'boolean',
+												default: true,
+												description: 'Whether punctuation and symbol tokens should be removed',
 											},
 											{
-												displayName: 'Position',
-												name: 'endPosition',
+												displayName: 'Include Offsets',
+												name: 'includeOffsets',
 												displayOptions: {
 													show: {
-														action: ['substring'],
-														end: ['position'],
+														action: ['tokenize'],
 													},
 												},
-												type: 'number',
-												default: 1,
-												placeholder: '1',
-												description: 'The end position of the substring. Can also be negative.',
+												type: 'boolean',
+												default: false,
+												description:
+													'Whether each token should be an object with its index, text, start and end offset instead of a string',
 											},
 											{
-												displayName: 'Length',
-												name: 'endLength',
+												displayName: 'Encode With',
+												name: 'statisticsEncodeWith',
 												displayOptions: {
 													show: {
-														action: ['substring'],
-														end: ['length'],
+														action: ['statistics'],
 													},
 												},
-												typeOptions: {
-													minValue: 0,
+												type: 'options',
+												options: encodeDecodeOptions,
+												default: 'utf8',
+												description: 'The encoding which is used to count the bytes',
+											},
+											{
+												displayName: 'Language',
+												name: 'language',
+												displayOptions: {
+													show: {
+														action: ['statistics'],
+													},
 												},
-												type: 'number',
-												default: 1,
-												placeholder: '1',
-												description: 'The length of the substring',
+												type: 'string',
+												default: 'en',
+												required: true,
+												description:
+													'The language whose rules are used for finding words and sentences. The Flesch reading ease is only meaningful for english texts.',
 											},
 											{
-												displayName: 'Times',
-												name: 'times',
+												displayName: 'Words per Minute',
+												name: 'wordsPerMinute',
 												displayOptions: {
 													show: {
-														action: ['repeat'],
+														action: ['statistics'],
 													},
 												},
 												type: 'number',
 												typeOptions: {
-													minValue: 0,
+													minValue: 1,
 												},
-												default: 1,
-												required: true,
-												placeholder: '1',
-												description: 'The number of times the string should be repeated',
+												default: 200,
+												placeholder: '200',
+												description: 'The reading speed which is used to estimate the reading time',
 											},
 										],
 									},
@@ -1370,10 +6284,20 @@ export class TextManipulation implements INodeType {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
-		let text: string;
+		let source: ManipulatedValue;
+
+		const mode = this.getNodeParameter('mode', 0, 'eachItem') as string;
+		if (mode !== 'eachItem' && mode !== 'aggregate' && mode !== 'fanOut') {
+			throw new NodeOperationError(this.getNode(), 'eachItem, aggregate or fanOut are valid options');
+		}
+		// the texts of all items by data source destination in aggregate mode
+		const aggregated = new Map<string, { dataSource: INodeParameters; texts: string[] }>();
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-			const keepOnlySet = this.getNodeParameter('keepOnlySet', itemIndex, false) as boolean;
+			const keepOnlySet =
+				mode !== 'aggregate' && (this.getNodeParameter('keepOnlySet', itemIndex, false) as boolean);
+			// the parts of each data source in fan out mode
+			const fanOut: Array<{ dataSource: INodeParameters; parts: ManipulatedValue[] }> = [];
 
 			const item = items[itemIndex];
 			let newItemJson: IDataObject = {};
@@ -1392,8 +6316,22 @@ export class TextManipulation implements INodeType {
 				itemIndex,
 				[],
 			) as INodeParameters[] | null) ?? []) {
+				const manipulations =
+					((textsWithManipulationsValues.manipulations as INodeParameters)
+						.manipulation as INodeParameters[] | null) ?? [];
+				const manipulate = (value: ManipulatedValue) => {
+					for (const manipulation of manipulations) {
+						value = mapStrings(value, (str) =>
+							manipulateText.call(this, str, manipulation, item.json, itemIndex),
+						);
+					}
+					return value;
+				};
+
 				for (const dataSource of ((textsWithManipulationsValues.dataSources as INodeParameters)
 					.dataSource as INodeParameters[] | null) ?? []) {
+					// source keys with wildcards can match multiple values
+					let wildcardMatches: WildcardMatch[] | undefined;
 					switch (dataSource.readOperation) {
 						case 'fromFile':
 							if (dataSource.getManipulatedData) {
@@ -1410,7 +6348,7 @@ export class TextManipulation implements INodeType {
 									) {
 										continue;
 									}
-									text = iconv.decode(
+									source = iconv.decode(
 										Buffer.from(
 											item.binary[dataSource.binaryPropertyName as string].data,
 											BINARY_ENCODING,
@@ -1419,7 +6357,7 @@ export class TextManipulation implements INodeType {
 										{ stripBOM: dataSource.fileStripBOM as boolean },
 									);
 								} else {
-									text = iconv.decode(
+									source = iconv.decode(
 										Buffer.from(
 											newItemBinary[dataSource.binaryPropertyName as string].data,
 											BINARY_ENCODING,
@@ -1436,7 +6374,7 @@ export class TextManipulation implements INodeType {
 							) {
 								continue;
 							} else {
-								text = iconv.decode(
+								source = iconv.decode(
 									Buffer.from(
 										item.binary[dataSource.binaryPropertyName as string].data,
 										BINARY_ENCODING,
@@ -1447,21 +6385,38 @@ export class TextManipulation implements INodeType {
 							}
 							break;
 						case 'fromJSON': {
-							const value =
+							const sourcePath = toPath(dataSource.sourceKey as string);
+							if (hasWildcards(sourcePath)) {
+								wildcardMatches = (
+									(dataSource.getManipulatedData && matchWildcards(newItemJson, sourcePath)) ||
+									[]
+								).filter((match) => match.value !== undefined);
+								if (wildcardMatches.length === 0)
+									wildcardMatches = matchWildcards(item.json, sourcePath);
+								const values = wildcardMatches.map((match) =>
+									readJsonValue(
+										match.value,
+										dataSource.skipNonString as boolean,
+										dataSource.walkObjects as boolean,
+									),
+								);
+								wildcardMatches = wildcardMatches.filter((_, index) => values[index] !== undefined);
+								source = values.filter((value) => value !== undefined) as ManipulatedValue[];
+								break;
+							}
+							const value = readJsonValue(
 								(dataSource.getManipulatedData &&
 									get(newItemJson, dataSource.sourceKey as string)) ||
-								get(item.json, dataSource.sourceKey as string);
-							if (typeof value === 'string') {
-								text = value;
-							} else if (dataSource.skipNonString) {
-								continue;
-							} else {
-								text = ((value as string | null) ?? '').toString();
-							}
+									get(item.json, dataSource.sourceKey as string),
+								dataSource.skipNonString as boolean,
+								dataSource.walkObjects as boolean,
+							);
+							if (value === undefined) continue;
+							source = value;
 							break;
 						}
 						case 'fromText':
-							text = dataSource.text as string;
+							source = dataSource.text as string;
 							break;
 						default:
 							throw new NodeOperationError(
@@ -1471,482 +6426,130 @@ export class TextManipulation implements INodeType {
 							);
 					}
 
-					for (const manipulation of ((
-						textsWithManipulationsValues.manipulations as INodeParameters
-					).manipulation as INodeParameters[] | null) ?? []) {
-						switch (manipulation.action) {
-							case 'concat':
-								text =
-									((manipulation.before as string | null) ?? '') +
-									text +
-									((manipulation.after as string | null) ?? '');
-								break;
-							case 'decodeEncode':
-								if (manipulation.encodeWith !== manipulation.decodeWith) {
-									text = iconv
-										.encode(
-											iconv.decode(Buffer.from(text), manipulation.decodeWith as string, {
-												addBOM: manipulation.addBOM as boolean,
-											}),
-											manipulation.encodeWith as string,
-											{ stripBOM: manipulation.stripBOM as boolean },
-										)
-										.toString();
-								}
-								break;
-							case 'decodeEncodeEntities':
-								if (manipulation.encodeWithEntities !== manipulation.decodeWithEntities) {
-									switch (manipulation.decodeWithEntities) {
-										case 'url':
-											text = decodeURI(text);
-											break;
-										case 'urlComponent':
-											text = decodeURIComponent(text);
-											break;
-										case 'xml':
-											switch (manipulation.entitiesDecodeMode) {
-												case 'legacy':
-													text = entities.decodeXML(text);
-													break;
-												case 'strict':
-													text = entities.decodeXMLStrict(text);
-													break;
-												default:
-													throw new NodeOperationError(
-														this.getNode(),
-														'legacy or strict are valid options',
-														{ itemIndex },
-													);
-											}
-											break;
-										case 'html':
-											switch (manipulation.entitiesDecodeMode) {
-												case 'legacy':
-													text = entities.decodeHTML(text);
-													break;
-												case 'strict':
-													text = entities.decodeHTMLStrict(text);
-													break;
-												default:
-													throw new NodeOperationError(
-														this.getNode(),
-														'legacy or strict are valid options',
-														{ itemIndex },
-													);
-											}
-											break;
-										case 'nothing':
-											break;
-										default:
-											throw new NodeOperationError(
-												this.getNode(),
-												'url, xml, html or nothing are valid options',
-												{ itemIndex },
-											);
-									}
-
-									switch (manipulation.encodeWithEntities) {
-										case 'url':
-											text = encodeURI(text);
-											break;
-										case 'urlComponent':
-											text = encodeURIComponent(text);
-											break;
-										case 'xml':
-											switch (manipulation.entitiesEncodeMode) {
-												case 'extensive':
-													text = entities.encodeXML(text);
-													break;
-												case 'utf8':
-													text = entities.escapeUTF8(text);
-													break;
-												case 'nonAscii':
-													text = entities.encodeXML(text);
-													break;
-												default:
-													throw new NodeOperationError(
-														this.getNode(),
-														'extensive, utf8 or nonAscii are valid options',
-														{ itemIndex },
-													);
-											}
-											break;
-										case 'html':
-											switch (manipulation.entitiesEncodeMode) {
-												case 'extensive':
-													text = entities.encodeHTML(text);
-													break;
-												case 'utf8':
-													text = entities.escapeUTF8(text);
-													break;
-												case 'nonAscii':
-													text = entities.encodeNonAsciiHTML(text);
-													break;
-												default:
-													throw new NodeOperationError(
-														this.getNode(),
-														'extensive, utf8 or nonAscii are valid options',
-														{ itemIndex },
-													);
-											}
-											break;
-										case 'nothing':
-											break;
-										default:
-											throw new NodeOperationError(
-												this.getNode(),
-												'url, xml, html or nothing are valid options',
-												{ itemIndex },
-											);
-									}
-								}
-								break;
-							case 'letterCase':
-								switch (manipulation.caseType) {
-									case 'camelCase':
-										text = camelCase(text);
-										break;
-									case 'capitalize':
-										text = capitalize(text);
-										break;
-									case 'titlecase':
-										text = text.split(' ').map(capitalize).join(' ');
-										break;
-									case 'kebabCase':
-										text = kebabCase(text);
-										break;
-									case 'snakeCase':
-										text = snakeCase(text);
-										break;
-									case 'startCase':
-										text = startCase(text);
-										break;
-									case 'upperCase':
-										text = text.toUpperCase();
-										break;
-									case 'lowerCase':
-										text = text.toLowerCase();
-										break;
-									case 'localeUpperCase':
-										text = text.toLocaleUpperCase(manipulation.language as string);
-										break;
-									case 'localeLowerCase':
-										text = text.toLocaleLowerCase(manipulation.language as string);
-										break;
-									default:
-										throw new NodeOperationError(
-											this.getNode(),
-											'upperCase, lowerCase, capitalize, camelCase, kebabCase or snakeCase are valid options',
-											{ itemIndex },
-										);
-								}
-								break;
-							case 'normalize':
-								switch (manipulation.normalizeForm) {
-									case 'nfc':
-										text = text.normalize('NFC');
-										break;
-									case 'nfd':
-										text = text.normalize('NFD');
-										break;
-									case 'nfkc':
-										text = text.normalize('NFKC');
-										break;
-									case 'nfkd':
-										text = text.normalize('NFKD');
-										break;
-								}
-								break;
-							case 'replace':
-								switch (manipulation.replaceMode) {
-									case 'substring':
-										if (manipulation.replaceAll) {
-											text = replaceAll(
-												text,
-												manipulation.substring as string,
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.value as string)
-													: (manipulation.value as string),
-											);
-										} else {
-											text = text.replace(
-												manipulation.substring as string,
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.value as string)
-													: (manipulation.value as string),
-											);
-										}
-										break;
-									case 'extendedSubstring':
-										if (manipulation.replaceAll) {
-											text = replaceAll(
-												text,
-												unescapeEscapedCharacters(manipulation.substring as string),
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.value as string)
-													: (manipulation.value as string),
-											);
-										} else {
-											text = text.replace(
-												unescapeEscapedCharacters(manipulation.substring as string),
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.value as string)
-													: (manipulation.value as string),
-											);
-										}
-										break;
-									case 'regex': {
-										const regexMatch = (manipulation.regex as string).match(
-											new RegExp('^/(.*?)/([gimusy]*)$'),
-										);
-
-										if (!regexMatch) {
-											text = text.replace(
-												new RegExp(manipulation.regex as string),
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.pattern as string)
-													: (manipulation.pattern as string),
-											);
-										} else if (regexMatch.length === 1) {
-											text = text.replace(
-												new RegExp(regexMatch[1]),
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.pattern as string)
-													: (manipulation.pattern as string),
-											);
-										} else {
-											text = text.replace(
-												new RegExp(regexMatch[1], regexMatch[2]),
-												manipulation.extended
-													? unescapeEscapedCharacters(manipulation.pattern as string)
-													: (manipulation.pattern as string),
-											);
-										}
-										break;
-									}
-									case 'predefinedRule':
-										switch (manipulation.predefinedRule) {
-											case 'tags': {
-												const value = manipulation.extended
-													? unescapeEscapedCharacters(manipulation.value as string)
-													: (manipulation.value as string);
-												text = stringStripHtml.stripHtml(text, {
-													stripRecognisedHTMLOnly: manipulation.onlyRecognisedHTML as boolean,
-													skipHtmlDecoding: true,
-													cb: (obj) => {
-														if (obj.deleteFrom && obj.deleteTo) {
-															if (obj.tag.slashPresent)
-																obj.rangesArr.push(
-																	obj.deleteFrom,
-																	obj.deleteTo,
-																	`${value}${obj.insert ?? ''}`,
-																);
-															else
-																obj.rangesArr.push(
-																	obj.deleteFrom,
-																	obj.deleteTo,
-																	`${value}${obj.insert ?? ''}`,
-																);
-														} else obj.rangesArr.push(obj.proposedReturn);
-													},
-												}).result;
-												break;
-											}
-											case 'characterGroups': {
-												const groups = [];
-												if (manipulation.newline)
-													groups.push(
-														buildRegexGroup(
-															'(\\r\\n|\\r|\\n)',
-															manipulation.newlineMin as number,
-															manipulation.newlineMax as number,
-														),
-													);
-												if (manipulation.number)
-													groups.push(
-														buildRegexGroup(
-															'\\d',
-															manipulation.numberMin as number,
-															manipulation.numberMax as number,
-														),
-													);
-												if (manipulation.alpha)
-													groups.push(
-														buildRegexGroup(
-															'[a-zA-Z]',
-															manipulation.alphaMin as number,
-															manipulation.alphaMax as number,
-														),
-													);
-												if (manipulation.whitespace)
-													groups.push(
-														buildRegexGroup(
-															'\\s',
-															manipulation.whitespaceMin as number,
-															manipulation.whitespaceMax as number,
-														),
-													);
-												text = text.replace(
-													new RegExp(groups.join('|'), 'g'),
-													manipulation.extended
-														? unescapeEscapedCharacters(manipulation.value as string)
-														: (manipulation.value as string),
-												);
-												break;
-											}
-											default:
-												throw new NodeOperationError(
-													this.getNode(),
-													'tags or characterGroups are valid options',
-													{ itemIndex },
-												);
-										}
-										break;
-									default:
-										throw new NodeOperationError(
-											this.getNode(),
-											'substring, extendedSubstring, regex or predefinedRule are valid options',
-											{ itemIndex },
-										);
-								}
-								break;
-							case 'trim':
-								switch (manipulation.trim) {
-									case 'trimBoth':
-										text = manipulation.trimStringUnit
-											? charsTrim(text, manipulation.trimString as string)
-											: trim(text, manipulation.trimString as string);
-										break;
-									case 'trimStart':
-										text = manipulation.trimStringUnit
-											? charsTrimStart(text, manipulation.trimString as string)
-											: trimStart(text, manipulation.trimString as string);
-										break;
-									case 'trimEnd':
-										text = manipulation.trimStringUnit
-											? charsTrimEnd(text, manipulation.trimString as string)
-											: trimEnd(text, manipulation.trimString as string);
-										break;
-									default:
-										throw new NodeOperationError(
-											this.getNode(),
-											'trimBoth, trimStart or trimEnd are valid options',
-											{ itemIndex },
-										);
-								}
-								break;
-							case 'pad':
-								if (manipulation.targetLength == null || (manipulation.targetLength as number) < 0)
-									throw new NodeOperationError(
-										this.getNode(),
-										'The Target Length has to be set to at least 0 or higher!',
-										{ itemIndex },
-									);
-								switch (manipulation.pad) {
-									case 'padStart':
-										text = text.padStart(
-											manipulation.targetLength as number,
-											manipulation.padString as string,
-										);
-										break;
-									case 'padEnd':
-										text = text.padEnd(
-											manipulation.targetLength as number,
-											manipulation.padString as string,
-										);
-										break;
-									default:
-										throw new NodeOperationError(
-											this.getNode(),
-											'padStart or padEnd are valid options',
-											{ itemIndex },
-										);
-								}
-								break;
-							case 'substring':
-								switch (manipulation.end) {
-									case 'complete':
-										text = text.substring(manipulation.startPosition as number);
-										break;
-									case 'position':
-										text = text.substring(
-											manipulation.startPosition as number,
-											manipulation.endPosition as number,
-										);
-										break;
-									case 'length':
-										if (manipulation.endLength == null || (manipulation.endLength as number) < 0) {
-											throw new NodeOperationError(
-												this.getNode(),
-												'The Length has to be set to at least 0 or higher!',
-												{ itemIndex },
-											);
-										}
-										if (((manipulation.startPosition as number | null) || 0) < 0)
-											text = text.substring(
-												manipulation.startPosition as number,
-												text.length +
-												(manipulation.startPosition as number) +
-												(manipulation.endLength as number),
-											);
-										else
-											text = text.substring(
-												manipulation.startPosition as number,
-												(manipulation.startPosition as number) + (manipulation.endLength as number),
-											);
-										break;
-									default:
-										throw new NodeOperationError(
-											this.getNode(),
-											'complete, position or length are valid options',
-											{ itemIndex },
-										);
-								}
-								break;
-							case 'repeat':
-								if (manipulation.times == null || (manipulation.times as number) < 0)
-									throw new NodeOperationError(
-										this.getNode(),
-										'The Times has to be set to at least 0 or higher!',
-										{ itemIndex },
-									);
-								text = text.repeat(manipulation.times as number);
-								break;
-							default:
-								throw new NodeOperationError(
-									this.getNode(),
-									'decodeEncode, replace, trim, pad, substring or repeat are valid options',
-									{ itemIndex },
-								);
+					if (dataSource.manipulateKeys) {
+						source = mapKeys(source, (key) => stringifyValue(manipulate(key)));
+					}
+					const value = manipulate(source);
+					if (mode === 'aggregate') {
+						const key =
+							dataSource.writeOperation === 'toFile'
+								? `binary.${dataSource.destinationBinaryPropertyName as string}`
+								: `json.${dataSource.destinationKey as string}`;
+						let aggregate = aggregated.get(key);
+						if (aggregate === undefined) {
+							aggregate = { dataSource, texts: [] };
+							aggregated.set(key, aggregate);
 						}
+						const itemTemplate = this.getNodeParameter(
+							'aggregateOptions.itemTemplate',
+							itemIndex,
+							'',
+						) as string;
+						aggregate.texts.push(
+							itemTemplate
+								? renderTemplate.call(
+									this,
+									itemTemplate,
+									{ text: stringifyValue(value), index: itemIndex, json: item.json },
+									itemIndex,
+								)
+								: stringifyValue(value),
+						);
+						continue;
 					}
-					switch (dataSource.writeOperation) {
-						case 'toFile':
-							newItemBinary[dataSource.destinationBinaryPropertyName as string] =
-								await this.helpers.prepareBinaryData(
-									iconv.encode(text, dataSource.fileEncodeWith as string, {
-										addBOM: dataSource.fileAddBOM as boolean,
-									}),
-									dataSource.fileName as string,
-									dataSource.mimeType as string,
-								);
-							break;
-						case 'toJSON':
-							set(newItemJson, dataSource.destinationKey as string, text);
-							break;
-						default:
-							throw new NodeOperationError(this.getNode(), 'toFile or toJSON are valid options', {
+					if (mode === 'fanOut') {
+						fanOut.push({
+							dataSource,
+							parts: fanOutValue.call(
+								this,
+								value,
+								this.getNodeParameter('fanOutBy', itemIndex, 'lines') as string,
+								this.getNodeParameter('fanOutSeparator', itemIndex, ',') as string,
+								this.getNodeParameter('fanOutRegex', itemIndex, '') as string,
+								this.getNodeParameter('fanOutSize', itemIndex, 1000) as number,
+								this.getNodeParameter('fanOutDropEmpty', itemIndex, true) as boolean,
 								itemIndex,
-							});
+							),
+						});
+						continue;
+					}
+					if (wildcardMatches !== undefined) {
+						const destinationPath = toPath(dataSource.destinationKey as string);
+						if (dataSource.writeOperation === 'toJSON' && hasWildcards(destinationPath)) {
+							// write each value to the path matched by the wildcards
+							for (const [index, match] of wildcardMatches.entries()) {
+								await writeValue.call(
+									this,
+									dataSource,
+									(value as ManipulatedValue[])[index],
+									newItemJson,
+									newItemBinary,
+									itemIndex,
+									replaceWildcards(destinationPath, match.captures),
+								);
+							}
+							continue;
+						}
+					}
+					await writeValue.call(this, dataSource, value, newItemJson, newItemBinary, itemIndex);
+				}
+			}
+			if (mode === 'eachItem') {
+				returnData.push({
+					json: newItemJson,
+					binary: Object.keys(newItemBinary).length === 0 ? undefined : newItemBinary,
+					pairedItem: {
+						item: itemIndex,
 					}
+				});
+			} else if (mode === 'fanOut') {
+				// the parts of multiple data sources with the same index are written to the same item
+				const count = Math.max(0, ...fanOut.map(({ parts }) => parts.length));
+				for (let partIndex = 0; partIndex < count; partIndex++) {
+					const partItemJson = deepCopy(newItemJson);
+					const partItemBinary: IBinaryKeyData = { ...newItemBinary };
+					for (const { dataSource, parts } of fanOut) {
+						if (partIndex >= parts.length) continue;
+						await writeValue.call(
+							this,
+							dataSource,
+							parts[partIndex],
+							partItemJson,
+							partItemBinary,
+							itemIndex,
+						);
+					}
+					returnData.push({
+						json: partItemJson,
+						binary: Object.keys(partItemBinary).length === 0 ? undefined : partItemBinary,
+						pairedItem: {
+							item: itemIndex,
+						},
+					});
 				}
 			}
+		}
+
+		if (mode === 'aggregate' && items.length > 0) {
+			const options = this.getNodeParameter('aggregateOptions', 0, {}) as IDataObject;
+			const newItemJson: IDataObject = {};
+			const newItemBinary: IBinaryKeyData = {};
+			for (const { dataSource, texts } of aggregated.values()) {
+				await writeValue.call(
+					this,
+					dataSource,
+					unescapeEscapedCharacters((options.header as string | undefined) ?? '') +
+						texts.join(unescapeEscapedCharacters((options.separator as string | undefined) ?? '\\n')) +
+						unescapeEscapedCharacters((options.footer as string | undefined) ?? ''),
+					newItemJson,
+					newItemBinary,
+					0,
+				);
+			}
 			returnData.push({
 				json: newItemJson,
 				binary: Object.keys(newItemBinary).length === 0 ? undefined : newItemBinary,
-				pairedItem: {
-					item: itemIndex,
-				}
+				pairedItem: items.map((_, itemIndex) => ({ item: itemIndex })),
 			});
 		}
 